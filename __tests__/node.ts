@@ -0,0 +1,227 @@
+import { EventEmitter } from "events";
+import { pipeline, Readable, Transform, Writable } from "stream";
+import {
+    filter,
+    flatMap,
+    into,
+    map,
+    partitionAll,
+    take,
+    toArray,
+    transducerBuilder,
+} from "../src/index";
+import { pushEvents, toNodeTransform } from "../src/node";
+
+describe("toNodeTransform()", () => {
+    it("should apply the transducer to each chunk", async () => {
+        const transform = toNodeTransform(
+            transducerBuilder<number>()
+                .filter(n => n % 2 === 1)
+                .map(n => n * 10)
+                .build(),
+        );
+        expect(await writeAll(transform, [1, 2, 3, 4, 5])).toEqual([
+            10,
+            30,
+            50,
+        ]);
+    });
+
+    it("should emit the tail of a partition when the input ends", async () => {
+        const transform = toNodeTransform(partitionAll<number>(2));
+        expect(await writeAll(transform, [1, 2, 3, 4, 5])).toEqual([
+            [1, 2],
+            [3, 4],
+            [5],
+        ]);
+    });
+
+    it("should end both sides once the transducer is done", async () => {
+        const transform = toNodeTransform(take<number>(2));
+        let hasEnded = false;
+        let hasFinished = false;
+        transform.on("end", () => (hasEnded = true));
+        transform.on("finish", () => (hasFinished = true));
+        const outputs: number[] = [];
+        transform.on("data", output => outputs.push(output));
+        transform.write(1);
+        transform.write(2);
+        await new Promise(resolve => setImmediate(resolve));
+        expect(outputs).toEqual([1, 2]);
+        expect(hasEnded).toEqual(true);
+        expect(hasFinished).toEqual(true);
+    });
+
+    it("should let a pipeline tear down an infinite source", async () => {
+        let i = 0;
+        const source = new Readable({
+            objectMode: true,
+            read() {
+                this.push(i++);
+            },
+        });
+        const outputs: number[] = [];
+        await new Promise(resolve =>
+            pipeline(
+                source,
+                toNodeTransform(take<number>(3)),
+                new Writable({
+                    objectMode: true,
+                    write(chunk, _, callback) {
+                        outputs.push(chunk);
+                        callback();
+                    },
+                }),
+                // Node reports the source as closed prematurely.
+                () => resolve(),
+            ),
+        );
+        expect(outputs).toEqual([0, 1, 2]);
+        expect(source.destroyed).toEqual(true);
+    });
+
+    it("should apply backpressure when outputs are not read", () => {
+        const transform = toNodeTransform(
+            flatMap((n: number) => [n, n, n]),
+            {
+                highWaterMark: 4,
+            },
+        );
+        const accepted: boolean[] = [];
+        for (let i = 0; i < 10; i++) {
+            accepted.push(transform.write(i));
+        }
+        expect(accepted).toContain(false);
+    });
+
+    it("should emit an error if the transducer throws", async () => {
+        const transform = toNodeTransform(
+            map((n: number) => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            }),
+        );
+        await expect(writeAll(transform, [1, 2, 3])).rejects.toThrow(
+            /Failed on 2/,
+        );
+    });
+
+    it("should work in a pipeline", async () => {
+        const outputs: string[] = [];
+        await new Promise((resolve, reject) =>
+            pipeline(
+                readableFrom(["a", "bb", "ccc"]),
+                toNodeTransform(map((s: string) => s.toUpperCase())),
+                new Writable({
+                    objectMode: true,
+                    write(chunk, _, callback) {
+                        outputs.push(chunk);
+                        callback();
+                    },
+                }),
+                error => (error ? reject(error) : resolve()),
+            ),
+        );
+        expect(outputs).toEqual(["A", "BB", "CCC"]);
+    });
+});
+
+describe("pushEvents()", () => {
+    it("should push events until the end event", async () => {
+        const emitter = new EventEmitter();
+        const promise = pushEvents(
+            emitter,
+            "data",
+            into(
+                filter((n: number) => n % 2 === 1),
+                toArray(),
+            ),
+        );
+        [1, 2, 3, 4, 5].forEach(n => emitter.emit("data", n));
+        emitter.emit("end");
+        expect(await promise).toEqual([1, 3, 5]);
+        expect(emitter.listenerCount("data")).toEqual(0);
+    });
+
+    it("should resolve once the sink is done", async () => {
+        const emitter = new EventEmitter();
+        const promise = pushEvents(
+            emitter,
+            "data",
+            into(take<number>(2), toArray()),
+        );
+        [1, 2, 3].forEach(n => emitter.emit("data", n));
+        expect(await promise).toEqual([1, 2]);
+        expect(emitter.listenerCount("data")).toEqual(0);
+        expect(emitter.listenerCount("end")).toEqual(0);
+    });
+
+    it("should use the given end and error events", async () => {
+        const emitter = new EventEmitter();
+        const promise = pushEvents(
+            emitter,
+            "message",
+            into(
+                map((s: string) => s.length),
+                toArray(),
+            ),
+            { endEvent: "close", errorEvent: "failure" },
+        );
+        emitter.emit("message", "ab");
+        emitter.emit("end");
+        emitter.emit("message", "abc");
+        emitter.emit("close");
+        expect(await promise).toEqual([2, 3]);
+    });
+
+    it("should reject on the error event", async () => {
+        const emitter = new EventEmitter();
+        const promise = pushEvents(emitter, "data", into(take(2), toArray()));
+        emitter.emit("error", new Error("Failed"));
+        await expect(promise).rejects.toThrow(/Failed/);
+        expect(emitter.listenerCount("error")).toEqual(0);
+    });
+
+    it("should reject if the transducer throws", async () => {
+        const emitter = new EventEmitter();
+        const promise = pushEvents(
+            emitter,
+            "data",
+            into(
+                map((n: number) => {
+                    if (n === 2) {
+                        throw new Error("Failed on 2");
+                    }
+                    return n;
+                }),
+                toArray(),
+            ),
+        );
+        [1, 2, 3].forEach(n => emitter.emit("data", n));
+        await expect(promise).rejects.toThrow(/Failed on 2/);
+        expect(emitter.listenerCount("data")).toEqual(0);
+    });
+});
+
+function writeAll<T>(transform: Transform, inputs: any[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+        const outputs: T[] = [];
+        transform.on("data", output => outputs.push(output));
+        transform.on("end", () => resolve(outputs));
+        transform.on("error", reject);
+        inputs.forEach(input => transform.write(input));
+        transform.end();
+    });
+}
+
+function readableFrom<T>(values: T[]): Readable {
+    let i = 0;
+    return new Readable({
+        objectMode: true,
+        read() {
+            this.push(i < values.length ? values[i++] : null);
+        },
+    });
+}
@@ -1,13 +1,65 @@
 import {
+    ascending,
     chainFrom,
+    chainFromAsync,
+    combine,
+    compose,
+    concat,
     count,
     cycle,
+    dedupe,
+    descending,
+    distinct,
+    distinctBy,
+    drop,
+    dropWhile,
+    Equivalence,
+    filter,
     first,
+    flatMap,
+    interleave,
+    interpose,
+    into,
+    isReduced,
     iterate,
+    joinOn,
+    map,
+    mapIndexed,
+    max,
+    median,
+    mergeSorted,
+    nullsFirst,
+    nullsLast,
+    ObservableLike,
+    ObserverLike,
+    pairWith,
+    partitionAll,
+    partitionBy,
+    partitionSliding,
     range,
+    reductions,
     repeat,
+    scan,
+    Scheduler,
+    sort,
+    sum,
+    take,
+    takeNth,
+    takeWhile,
+    thenBy,
+    toArray,
+    toAverage,
+    topK,
+    transduce,
+    transduceAsync,
+    transduceObservable,
+    Transducer,
     transducerBuilder,
     Transformer,
+    WithErrors,
+    zip,
+    zipLongest,
+    zipWith,
 } from "../src/index";
 
 describe("transformer chain", () => {
@@ -30,6 +82,69 @@ describe("transformer chain", () => {
 
 // ----- Transformations -----
 
+describe("catchError()", () => {
+    it("should substitute replacements for inputs which fail", () => {
+        const result = chainFrom(["1", "x", "3"])
+            .catchError((_, input) => [input.length * 100 + ""])
+            .map(parseStrict)
+            .toArray();
+        expect(result).toEqual([1, 100, 3]);
+    });
+
+    it("should skip inputs if the handler returns no replacements", () => {
+        const errors: any[] = [];
+        const result = chainFrom(["1", "x", "3", "y"])
+            .catchError((error, input) => {
+                errors.push([error.message, input]);
+                return [];
+            })
+            .map(parseStrict)
+            .toArray();
+        expect(result).toEqual([1, 3]);
+        expect(errors).toEqual([
+            ["Not a number: x", "x"],
+            ["Not a number: y", "y"],
+        ]);
+    });
+
+    it("should leave take() unaffected by failed elements", () => {
+        const result = chainFrom(["1", "x", "2", "3", "4"])
+            .catchError(() => [])
+            .map(parseStrict)
+            .take(3)
+            .toArray();
+        expect(result).toEqual([1, 2, 3]);
+    });
+
+    it("should not roll back state updated before the error", () => {
+        const result = chainFrom(["x", "1", "x"])
+            .catchError(() => ["2"])
+            .distinct()
+            .map(parseStrict)
+            .toArray();
+        // The second "x" is dropped by distinct() before it can fail.
+        expect(result).toEqual([2, 1]);
+    });
+
+    it("should not catch errors thrown by replacements", () => {
+        expect(() =>
+            chainFrom(["1", "x"])
+                .catchError(() => ["y"])
+                .map(parseStrict)
+                .toArray(),
+        ).toThrow(/Not a number: y/);
+    });
+
+    it("should not catch errors thrown by earlier stages", () => {
+        expect(() =>
+            chainFrom(["1", "x"])
+                .map(parseStrict)
+                .catchError(() => [])
+                .toArray(),
+        ).toThrow(/Not a number: x/);
+    });
+});
+
 describe("compose()", () => {
     it("should apply the specified transform", () => {
         const transducer = transducerBuilder<string>()
@@ -51,6 +166,46 @@ describe("dedupe()", () => {
     });
 });
 
+describe("distinct()", () => {
+    it("should remove all duplicates", () => {
+        const result = chainFrom([1, 2, 1, 3, 2, 3, 4])
+            .distinct()
+            .toArray();
+        expect(result).toEqual([1, 2, 3, 4]);
+    });
+});
+
+describe("distinctBy()", () => {
+    it("should remove elements whose keys have been seen", () => {
+        const result = chainFrom(["a", "bb", "c", "dd", "eee"])
+            .distinctBy(s => s.length)
+            .toArray();
+        expect(result).toEqual(["a", "bb", "eee"]);
+    });
+
+    it("should compare keys using the equivalence if provided", () => {
+        const input: Array<[number, number]> = [
+            [1, 2],
+            [2, 1],
+            [1, 2],
+            [2, 2],
+            [2, 1],
+        ];
+        const pairEquivalence: Equivalence<[number, number]> = {
+            hash: ([a, b]) => a + b,
+            equals: (p, q) => p[0] === q[0] && p[1] === q[1],
+        };
+        const result = chainFrom(input)
+            .distinctBy(pair => pair, pairEquivalence)
+            .toArray();
+        expect(result).toEqual([
+            [1, 2],
+            [2, 1],
+            [2, 2],
+        ]);
+    });
+});
+
 describe("drop()", () => {
     it("should drop the first n elements", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -175,6 +330,141 @@ describe("interpose()", () => {
     });
 });
 
+describe("joinOn()", () => {
+    const users = [
+        { id: 1, name: "Ann" },
+        { id: 2, name: "Bob" },
+        { id: 3, name: "Cal" },
+    ];
+    const orders = [
+        { userId: 1, item: "apple" },
+        { userId: 4, item: "pear" },
+        { userId: 1, item: "fig" },
+        { userId: 2, item: "kiwi" },
+    ];
+
+    it("should emit only matching pairs for an inner join", () => {
+        const result = chainFrom(users)
+            .joinOn(
+                orders,
+                u => u.id,
+                o => o.userId,
+            )
+            .map(([u, o]) => `${u.name}:${o.item}`)
+            .toArray();
+        expect(result).toEqual(["Ann:apple", "Ann:fig", "Bob:kiwi"]);
+    });
+
+    it("should pair unmatched inputs with null for a left join", () => {
+        const result = chainFrom(users)
+            .joinOn(
+                orders,
+                u => u.id,
+                o => o.userId,
+                { kind: "left" },
+            )
+            .map(([u, o]) => `${u.name}:${o ? o.item : "-"}`)
+            .toArray();
+        expect(result).toEqual(["Ann:apple", "Ann:fig", "Bob:kiwi", "Cal:-"]);
+    });
+
+    it("should emit unmatched elements of both sides for a full join", () => {
+        const result = chainFrom(users)
+            .joinOn(
+                orders,
+                u => u.id,
+                o => o.userId,
+                { kind: "full" },
+            )
+            .map(([u, o]) => `${u ? u.name : "-"}:${o ? o.item : "-"}`)
+            .toArray();
+        expect(result).toEqual([
+            "Ann:apple",
+            "Ann:fig",
+            "Bob:kiwi",
+            "Cal:-",
+            "-:pear",
+        ]);
+    });
+
+    it("should stop early even while emitting unmatched elements", () => {
+        const result = chainFrom([1])
+            .joinOn(
+                [2, 3, 4],
+                n => n,
+                n => n,
+                { kind: "full" },
+            )
+            .take(2)
+            .toArray();
+        expect(result).toEqual([
+            [1, null],
+            [null, 2],
+        ]);
+    });
+
+    it("should not emit unmatched elements after stopping early", () => {
+        const join = () =>
+            chainFrom([1, 2]).joinOn(
+                [1, 5, 6],
+                n => n,
+                n => n,
+                { kind: "full" },
+            );
+        expect(join().first()).toEqual([1, 1]);
+        expect(
+            join()
+                .take(1)
+                .toArray(),
+        ).toEqual([[1, 1]]);
+        expect(
+            Array.from(
+                join()
+                    .take(1)
+                    .toIterator(),
+            ),
+        ).toEqual([[1, 1]]);
+    });
+
+    it("should read the other collection only once", () => {
+        const other = trackedIterableFrom([1, 2, 3]);
+        const result = chainFrom([3, 2, 1, 2])
+            .joinOn(
+                other,
+                n => n,
+                n => n,
+            )
+            .toArray();
+        expect(result).toEqual([
+            [3, 3],
+            [2, 2],
+            [1, 1],
+            [2, 2],
+        ]);
+        expect(other.pulled).toEqual(3);
+    });
+
+    it("should index a one-shot iterable once for every run", () => {
+        function* generateOther() {
+            yield 0;
+            yield 1;
+        }
+        const transducer = joinOn(
+            generateOther(),
+            (n: number) => n,
+            (n: number) => n,
+        );
+        expect(transduce([0, 1], transducer, toArray())).toEqual([
+            [0, 0],
+            [1, 1],
+        ]);
+        expect(transduce([0, 1], transducer, toArray())).toEqual([
+            [0, 0],
+            [1, 1],
+        ]);
+    });
+});
+
 describe("map()", () => {
     it("should map over elements", () => {
         const result = chainFrom(["a", "bb", "ccc"])
@@ -193,6 +483,19 @@ describe("mapIndexed()", () => {
     });
 });
 
+describe("mapTry()", () => {
+    it("should wrap outputs and errors", () => {
+        const result = chainFrom(["1", "x", "3"])
+            .mapTry(parseStrict)
+            .toArray();
+        expect(result).toEqual([
+            { ok: true, value: 1 },
+            { ok: false, error: new Error("Not a number: x"), input: "x" },
+            { ok: true, value: 3 },
+        ]);
+    });
+});
+
 describe("partitionAll()", () => {
     it("should group elements by the specified size", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -223,6 +526,95 @@ describe("partitionBy()", () => {
     });
 });
 
+describe("partitionSliding()", () => {
+    it("should emit overlapping windows", () => {
+        const result = chainFrom([1, 2, 3, 4, 5])
+            .partitionSliding(3)
+            .toArray();
+        expect(result).toEqual([
+            [1, 2, 3],
+            [2, 3, 4],
+            [3, 4, 5],
+        ]);
+    });
+
+    it("should advance by the step", () => {
+        const result = chainFrom([1, 2, 3, 4, 5, 6, 7])
+            .partitionSliding(3, 2)
+            .toArray();
+        expect(result).toEqual([
+            [1, 2, 3],
+            [3, 4, 5],
+            [5, 6, 7],
+        ]);
+    });
+
+    it("should skip elements if the step is greater than the size", () => {
+        const result = chainFrom([1, 2, 3, 4, 5, 6, 7, 8])
+            .partitionSliding(2, 3)
+            .toArray();
+        expect(result).toEqual([
+            [1, 2],
+            [4, 5],
+            [7, 8],
+        ]);
+    });
+
+    it("should drop partial windows by default", () => {
+        const result = chainFrom([1, 2])
+            .partitionSliding(3)
+            .toArray();
+        expect(result).toEqual([]);
+    });
+
+    it("should emit partial windows if requested", () => {
+        const result1 = chainFrom([1, 2, 3, 4])
+            .partitionSliding(3, 1, { includePartial: true })
+            .toArray();
+        expect(result1).toEqual([[1, 2, 3], [2, 3, 4], [3, 4], [4]]);
+        const result2 = chainFrom([1, 2, 3, 4, 5, 6])
+            .partitionSliding(2, 3, { includePartial: true })
+            .toArray();
+        expect(result2).toEqual([
+            [1, 2],
+            [4, 5],
+        ]);
+        const result3 = chainFrom([1, 2, 3, 4, 5])
+            .partitionSliding(2, 3, { includePartial: true })
+            .toArray();
+        expect(result3).toEqual([
+            [1, 2],
+            [4, 5],
+        ]);
+        const result4 = chainFrom([1, 2, 3, 4])
+            .partitionSliding(2, 3, { includePartial: true })
+            .toArray();
+        expect(result4).toEqual([[1, 2], [4]]);
+    });
+
+    it("should not emit partial windows after terminating early", () => {
+        const result = chainFrom([1, 2, 3, 4, 5])
+            .partitionSliding(3, 1, { includePartial: true })
+            .take(2)
+            .toArray();
+        expect(result).toEqual([
+            [1, 2, 3],
+            [2, 3, 4],
+        ]);
+    });
+
+    it("should throw if size or step is not positive", () => {
+        expect(() => chainFrom([1, 2, 3]).partitionSliding(0)).toThrow(/0/);
+        expect(() => chainFrom([1, 2, 3]).partitionSliding(-1)).toThrow(
+            /negative/,
+        );
+        expect(() => chainFrom([1, 2, 3]).partitionSliding(2, 0)).toThrow(/0/);
+        expect(() => chainFrom([1, 2, 3]).partitionSliding(2, -1)).toThrow(
+            /negative/,
+        );
+    });
+});
+
 describe("remove()", () => {
     it("should remove elements matching the filter", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -248,6 +640,138 @@ describe("removeAbsent()", () => {
     });
 });
 
+describe("scan()", () => {
+    it("should emit each running value of a reducer", () => {
+        const result = chainFrom([1, 2, 3, 4])
+            .scan((acc, n) => acc + n, 0)
+            .toArray();
+        expect(result).toEqual([1, 3, 6, 10]);
+    });
+
+    it("should emit each running result of a transformer", () => {
+        expect(
+            chainFrom([1, 2, 3, 4])
+                .scan(sum())
+                .toArray(),
+        ).toEqual([1, 3, 6, 10]);
+        expect(
+            chainFrom([2, 1, 3, 0])
+                .scan(max())
+                .toArray(),
+        ).toEqual([2, 2, 3, 3]);
+        expect(
+            chainFrom([2, 4, 6])
+                .scan(toAverage())
+                .toArray(),
+        ).toEqual([2, 3, 4]);
+    });
+
+    it("should emit a separate result after each element", () => {
+        expect(
+            chainFrom([5, 1, 4, 2])
+                .scan(topK(2))
+                .toArray(),
+        ).toEqual([[5], [5, 1], [5, 4], [5, 4]]);
+        expect(
+            chainFrom([5, 1, 4, 2])
+                .scan(median())
+                .toArray(),
+        ).toEqual([5, 3, 4, 3]);
+        expect(
+            chainFrom([1, 2, 3])
+                .scan(toArray())
+                .toArray(),
+        ).toEqual([[1], [1, 2], [1, 2, 3]]);
+    });
+
+    it("should reject transformers which emit held back elements", () => {
+        expect(() => scan(partitionAll<number>(2)(toArray()))).toThrow(
+            /completion step/,
+        );
+        expect(() =>
+            scan(
+                compose(
+                    map((n: number) => n),
+                    sort<number>(),
+                )(toArray()),
+            ),
+        ).toThrow(/completion step/);
+    });
+
+    it("should terminate when the transformer returns reduced", () => {
+        const iterator = getIterableIterator(range(1, 5));
+        const result = chainFrom(iterator)
+            .scan(take<number>(2)(sum()))
+            .toArray();
+        expect(result).toEqual([1, 3]);
+        expect(iterator.next().value).toEqual(3);
+    });
+
+    it("should be usable in a transducer builder", () => {
+        const transducer = transducerBuilder<number>()
+            .scan(sum())
+            .build();
+        expect(transduce([1, 2, 3], transducer, toArray())).toEqual([1, 3, 6]);
+        expect(transduce([1, 2, 3], reductions(sum()), toArray())).toEqual([
+            1,
+            3,
+            6,
+        ]);
+    });
+});
+
+describe("sort()", () => {
+    it("should sort numbers in natural order by default", () => {
+        const result = chainFrom([3, 1, 10, 2])
+            .sort()
+            .toArray();
+        expect(result).toEqual([1, 2, 3, 10]);
+    });
+
+    it("should sort with a comparator and keep ties in input order", () => {
+        const result = chainFrom(["bb", "c", "aa", "d"])
+            .sort((a, b) => a.length - b.length)
+            .toArray();
+        expect(result).toEqual(["c", "d", "bb", "aa"]);
+    });
+
+    it("should allow further transformations after sorting", () => {
+        const source = trackedIterableFrom([5, 3, 4, 1, 2]);
+        const result = chainFrom(source)
+            .sort()
+            .take(2)
+            .toArray();
+        expect(result).toEqual([1, 2]);
+        expect(source.pulled).toEqual(5);
+    });
+
+    it("should emit sorted elements lazily from toIterator()", () => {
+        const iterator = chainFrom([3, 1, 2])
+            .sort()
+            .toIterator();
+        expect(Array.from(iterator)).toEqual([1, 2, 3]);
+    });
+});
+
+describe("sortBy()", () => {
+    it("should sort by each key in turn", () => {
+        const people = [
+            { name: "Cy", age: 30 },
+            { name: "Al", age: 25 },
+            { name: "Bo", age: 30 },
+            { name: "Di", age: 25 },
+        ];
+        const result = chainFrom(people)
+            .sortBy(
+                p => p.age,
+                p => p.name,
+            )
+            .map(p => p.name)
+            .toArray();
+        expect(result).toEqual(["Al", "Di", "Bo", "Cy"]);
+    });
+});
+
 describe("take()", () => {
     it("should take the first n elements", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -326,6 +850,68 @@ describe("takeWhile()", () => {
 
 // ----- Reductions -----
 
+describe("zip()", () => {
+    it("should pair elements with those of another iterable", () => {
+        const result = chainFrom([1, 2, 3])
+            .zip(["a", "b", "c"])
+            .toArray();
+        expect(result).toEqual([
+            [1, "a"],
+            [2, "b"],
+            [3, "c"],
+        ]);
+    });
+
+    it("should stop when the other iterable runs out", () => {
+        const result = chainFrom([1, 2, 3, 4])
+            .zip(["a", "b"])
+            .toArray();
+        expect(result).toEqual([
+            [1, "a"],
+            [2, "b"],
+        ]);
+    });
+
+    it("should close the other iterable when the input runs out", () => {
+        const other = trackedIterableFrom(["a", "b", "c", "d"]);
+        const result = chainFrom([1, 2])
+            .zip(other)
+            .toArray();
+        expect(result).toEqual([
+            [1, "a"],
+            [2, "b"],
+        ]);
+        expect(other.pulled).toEqual(2);
+        expect(other.isClosed).toEqual(true);
+    });
+
+    it("should close the other iterable when a later step throws", () => {
+        const other = trackedIterableFrom(["a", "b", "c"]);
+        const chain = chainFrom([1, 2, 3])
+            .zip(other)
+            .map(([n]) => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            });
+        expect(() => chain.toArray()).toThrow(/Failed on 2/);
+        expect(other.pulled).toEqual(2);
+        expect(other.isClosed).toEqual(true);
+    });
+
+    it("should work with infinite iterables", () => {
+        const result = chainFrom(["a", "b", "c"])
+            .zip(range(0, Number.POSITIVE_INFINITY))
+            .toArray();
+        expect(result).toEqual([
+            ["a", 0],
+            ["b", 1],
+            ["c", 2],
+        ]);
+    });
+});
+
 describe("reduce()", () => {
     const aPush = <T>(array: T[], x: T): T[] => {
         array.push(x);
@@ -353,6 +939,87 @@ describe("reduce()", () => {
     });
 });
 
+describe("branch()", () => {
+    const events = [
+        { latency: 10, isError: false },
+        { latency: 30, isError: true },
+        { latency: 20, isError: false },
+    ];
+
+    it("should end each branch separately in a single pass", () => {
+        const source = trackedIterableFrom(events);
+        const result = chainFrom(source).branch({
+            errors: b => b.filter(e => e.isError).toArray(),
+            latency: b => b.map(e => e.latency).average(),
+            total: b => b.reduce((acc, e) => acc + e.latency, 0),
+        });
+        const latency: number | null = result.latency;
+        expect(latency).toEqual(20);
+        expect(result.errors).toEqual([events[1]]);
+        expect(result.total).toEqual(60);
+        expect(source.pulled).toEqual(3);
+    });
+
+    it("should stop early once every branch is done", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const result = chainFrom(source)
+            .map(n => n * 10)
+            .branch({
+                first: b => b.first(),
+                firstEven: b => b.find(n => n % 20 === 0),
+            });
+        expect(result).toEqual({ first: 10, firstEven: 20 });
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should work on async chains", async () => {
+        const result = await chainFromAsync(asyncIterableFrom([1, 2, 3]))
+            .mapAsync(async n => n + 1)
+            .branch({
+                count: b => b.count(),
+                sum: b => b.sum(),
+            });
+        expect(result).toEqual({ count: 3, sum: 9 });
+    });
+
+    it("should throw if a branch does not end its chain", () => {
+        expect(() =>
+            chainFrom([1, 2, 3]).branch({ mapped: b => b.map(n => n + 1) }),
+        ).toThrow(/must end with a method/);
+    });
+});
+
+describe("collectErrors()", () => {
+    it("should collect errors alongside the result", () => {
+        const result: WithErrors<number[], string> = chainFrom(["1", "x", "3"])
+            .mapTry(parseStrict)
+            .collectErrors();
+        expect(result).toEqual({
+            result: [1, 3],
+            errors: [{ error: new Error("Not a number: x"), input: "x" }],
+        });
+    });
+
+    it("should reduce the successful outputs with the transformer", () => {
+        const result = chainFrom(["1", "x", "3", "y", "5"])
+            .mapTry(parseStrict)
+            .collectErrors(sum());
+        expect(result.result).toEqual(9);
+        expect(result.errors.map(({ input }) => input)).toEqual(["x", "y"]);
+    });
+
+    it("should stop early if the transformer does", () => {
+        const source = trackedIterableFrom(["1", "x", "3", "4"]);
+        const result = chainFrom(source)
+            .mapTry(parseStrict)
+            .collectErrors(first());
+        expect(result.result).toEqual(1);
+        expect(result.errors).toEqual([]);
+        expect(source.pulled).toEqual(1);
+    });
+});
+
 describe("count()", () => {
     it("should return the number of elements", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -362,6 +1029,21 @@ describe("count()", () => {
     });
 });
 
+describe("countBy()", () => {
+    it("should count the elements with each key", () => {
+        const result = chainFrom(["a", "bb", "cc", "d", "eee"]).countBy(
+            s => s.length,
+        );
+        expect(result).toEqual(
+            new Map([
+                [1, 2],
+                [2, 2],
+                [3, 1],
+            ]),
+        );
+    });
+});
+
 describe("every()", () => {
     it("should return true if all elements match the predicate", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -451,6 +1133,109 @@ describe("forEach()", () => {
     });
 });
 
+describe("frequencies()", () => {
+    it("should count how often each element occurs", () => {
+        const result = chainFrom(["x", "y", "x", "z", "x"]).frequencies();
+        expect(result).toEqual(
+            new Map([
+                ["x", 3],
+                ["y", 1],
+                ["z", 1],
+            ]),
+        );
+    });
+});
+
+describe("histogram()", () => {
+    it("should count values in buckets of a fixed size", () => {
+        const result = chainFrom([1, 3, 12, 14, 15, -2, 30]).histogram({
+            bucketSize: 10,
+        });
+        expect(result).toEqual([
+            { start: -10, end: 0, count: 1 },
+            { start: 0, end: 10, count: 2 },
+            { start: 10, end: 20, count: 3 },
+            { start: 30, end: 40, count: 1 },
+        ]);
+    });
+
+    it("should omit empty buckets between sparse values", () => {
+        const result = chainFrom([0, 1e9]).histogram({ bucketSize: 1 });
+        expect(result).toEqual([
+            { start: 0, end: 1, count: 1 },
+            { start: 1e9, end: 1e9 + 1, count: 1 },
+        ]);
+    });
+
+    it("should count values between boundaries, ignoring outliers", () => {
+        const result = chainFrom([0, 1, 5, 9, 10, 99, 100, -1]).histogram({
+            boundaries: [0, 1, 10, 100],
+        });
+        expect(result).toEqual([
+            { start: 0, end: 1, count: 1 },
+            { start: 1, end: 10, count: 3 },
+            { start: 10, end: 100, count: 2 },
+        ]);
+    });
+
+    it("should omit empty buckets between boundaries", () => {
+        const result = chainFrom([0, 50]).histogram({
+            boundaries: [0, 1, 10, 100],
+        });
+        expect(result).toEqual([
+            { start: 0, end: 1, count: 1 },
+            { start: 10, end: 100, count: 1 },
+        ]);
+    });
+
+    it("should include empty buckets if requested", () => {
+        expect(
+            chainFrom([0, 50]).histogram({
+                boundaries: [0, 1, 10, 100, 1000],
+                includeEmpty: true,
+            }),
+        ).toEqual([
+            { start: 0, end: 1, count: 1 },
+            { start: 1, end: 10, count: 0 },
+            { start: 10, end: 100, count: 1 },
+            { start: 100, end: 1000, count: 0 },
+        ]);
+        expect(
+            chainFrom([1, 32, 15]).histogram({
+                bucketSize: 10,
+                includeEmpty: true,
+            }),
+        ).toEqual([
+            { start: 0, end: 10, count: 1 },
+            { start: 10, end: 20, count: 1 },
+            { start: 20, end: 30, count: 0 },
+            { start: 30, end: 40, count: 1 },
+        ]);
+    });
+
+    it("should throw if too many empty buckets of a fixed size are requested", () => {
+        expect(() =>
+            chainFrom([0, 1e9]).histogram({
+                bucketSize: 1,
+                includeEmpty: true,
+            }),
+        ).toThrow(/more than 1000000 buckets/);
+    });
+
+    it("should produce no buckets of a fixed size for empty input", () => {
+        expect(chainFrom<number>([]).histogram({ bucketSize: 5 })).toEqual([]);
+    });
+
+    it("should throw on invalid options", () => {
+        expect(() => chainFrom([1]).histogram({ bucketSize: 0 })).toThrow(
+            /must be positive/,
+        );
+        expect(() => chainFrom([1]).histogram({ boundaries: [2, 1] })).toThrow(
+            /must be ascending/,
+        );
+    });
+});
+
 describe("isEmpty()", () => {
     it("should return true if there are no elements", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -492,6 +1277,47 @@ describe("joinToString()", () => {
     });
 });
 
+describe("partition()", () => {
+    it("should split elements by whether they match", () => {
+        const result = chainFrom([1, 2, 3, 4, 5]).partition(n => n % 2 === 0);
+        expect(result).toEqual([
+            [2, 4],
+            [1, 3, 5],
+        ]);
+    });
+
+    it("should narrow types with a type guard", () => {
+        const input: Array<string | number> = [1, "a", 2, "b"];
+        const [strings, numbers] = chainFrom(input).partition(
+            (x): x is string => typeof x === "string",
+        );
+        const upper: string[] = strings.map(s => s.toUpperCase());
+        const doubled: number[] = numbers.map(n => n * 2);
+        expect(upper).toEqual(["A", "B"]);
+        expect(doubled).toEqual([2, 4]);
+    });
+
+    it("should reduce each side with the provided transformers", () => {
+        const result = chainFrom([1, 2, 3, 4, 5]).partition(
+            n => n > 2,
+            sum(),
+            count(),
+        );
+        expect(result).toEqual([12, 2]);
+    });
+
+    it("should terminate early once both sides are reduced", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const result = chainFrom(source).partition(
+            n => n % 2 === 0,
+            first(),
+            first(),
+        );
+        expect(result).toEqual([2, 1]);
+        expect(source.pulled).toEqual(2);
+    });
+});
+
 describe("some()", () => {
     it("should return true if any element matches the predicate", () => {
         const result = chainFrom([1, 2, 3, 4, 5])
@@ -633,6 +1459,17 @@ describe("toObject()", () => {
     });
 });
 
+describe("toObjectCountBy()", () => {
+    it("should count the elements with each key in an object", () => {
+        const result = chainFrom([
+            "apple",
+            "avocado",
+            "banana",
+        ]).toObjectCountBy(s => s[0]);
+        expect(result).toEqual({ a: 2, b: 1 });
+    });
+});
+
 describe("toObjectGroupBy()", () => {
     it("should group into arrays by default", () => {
         const input = ["a", "b", "aa", "aaa", "bc"];
@@ -715,6 +1552,78 @@ describe("toIterator()", () => {
         const result = Array.from(iterator);
         expect(result).toEqual(["h", "e", "o"]);
     });
+
+    it("should emit outputs flushed by the completion step", () => {
+        const partitions = chainFrom([1, 2, 3, 4, 5])
+            .partitionAll(2)
+            .toIterator();
+        expect(Array.from(partitions)).toEqual([[1, 2], [3, 4], [5]]);
+        const groups = chainFrom(["a", "b", "cc", "dd", "e"])
+            .partitionBy(s => s.length)
+            .toIterator();
+        expect(Array.from(groups)).toEqual([["a", "b"], ["cc", "dd"], ["e"]]);
+    });
+
+    it("should flush the completion step after early termination", () => {
+        const iterator = chainFrom([1, 2, 3, 4, 5])
+            .partitionAll(2)
+            .take(2)
+            .toIterator();
+        expect(Array.from(iterator)).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        const partial = chainFrom([1, 2, 3, 4, 5])
+            .take(3)
+            .partitionAll(2)
+            .toIterator();
+        expect(Array.from(partial)).toEqual([[1, 2], [3]]);
+    });
+
+    it("should produce the same output as toArray()", () => {
+        const transducers: Array<Transducer<number, any>> = [
+            transducerBuilder<number>()
+                .dedupe()
+                .build(),
+            transducerBuilder<number>()
+                .drop(2)
+                .build(),
+            transducerBuilder<number>()
+                .dropWhile(n => n < 3)
+                .build(),
+            transducerBuilder<number>()
+                .interpose(0)
+                .build(),
+            transducerBuilder<number>()
+                .mapIndexed((n, i) => n * i)
+                .build(),
+            transducerBuilder<number>()
+                .partitionAll(3)
+                .build(),
+            transducerBuilder<number>()
+                .partitionBy(n => n % 3 === 0)
+                .build(),
+            transducerBuilder<number>()
+                .take(4)
+                .build(),
+            transducerBuilder<number>()
+                .takeNth(2)
+                .build(),
+            transducerBuilder<number>()
+                .takeWhile(n => n < 4)
+                .build(),
+        ];
+        const input = [1, 1, 2, 3, 3, 4, 5, 6, 6, 7];
+        transducers.forEach(transducer => {
+            const eager = chainFrom(input)
+                .compose(transducer)
+                .toArray();
+            const lazy = chainFrom(input)
+                .compose(transducer)
+                .toIterator();
+            expect(Array.from(lazy)).toEqual(eager);
+        });
+    });
 });
 
 describe("average()", () => {
@@ -789,6 +1698,204 @@ describe("sum()", () => {
     });
 });
 
+describe("maxBy()", () => {
+    it("should return the element with the greatest key", () => {
+        const result = chainFrom(["a", "ccc", "bb", "ddd"]).maxBy(
+            s => s.length,
+        );
+        expect(result).toEqual("ccc");
+    });
+
+    it("should compute each key only once", () => {
+        let calls = 0;
+        chainFrom([3, 1, 2]).maxBy(n => {
+            calls++;
+            return n;
+        });
+        expect(calls).toEqual(3);
+    });
+
+    it("should return null on empty input", () => {
+        expect(chainFrom<string>([]).maxBy(s => s.length)).toEqual(null);
+    });
+});
+
+describe("minBy()", () => {
+    it("should return the element with the least key", () => {
+        const result = chainFrom(["ccc", "a", "bb", "d"]).minBy(s => s.length);
+        expect(result).toEqual("a");
+    });
+});
+
+describe("topK()", () => {
+    it("should return the k largest numbers, largest first", () => {
+        const result = chainFrom([5, 1, 9, 3, 7, 9]).topK(3);
+        expect(result).toEqual([9, 9, 7]);
+    });
+
+    it("should use the comparator if provided", () => {
+        const result = chainFrom(["bb", "a", "dddd", "ccc"]).topK(
+            2,
+            (a, b) => a.length - b.length,
+        );
+        expect(result).toEqual(["dddd", "ccc"]);
+    });
+
+    it("should keep the earliest of equal elements", () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        const result = chainFrom(["x", "aa", "bb", "cc"]).topK(2, byLength);
+        expect(result).toEqual(["aa", "bb"]);
+    });
+
+    it("should return everything if there are fewer than k elements", () => {
+        expect(chainFrom([2, 1]).topK(5)).toEqual([2, 1]);
+    });
+
+    it("should throw if k is negative", () => {
+        expect(() => chainFrom([1]).topK(-1)).toThrow(/cannot be negative/);
+    });
+});
+
+describe("bottomK()", () => {
+    it("should return the k smallest numbers, smallest first", () => {
+        const result = chainFrom([5, 1, 9, 3, 7]).bottomK(2);
+        expect(result).toEqual([1, 3]);
+    });
+
+    it("should return an empty array for k of 0", () => {
+        const source = trackedIterableFrom([1, 2, 3]);
+        expect(chainFrom(source).bottomK(0)).toEqual([]);
+        expect(source.pulled).toEqual(1);
+    });
+});
+
+describe("variance()", () => {
+    it("should compute the population variance", () => {
+        const result = chainFrom([2, 4, 4, 4, 5, 5, 7, 9]).variance();
+        expect(result).toEqual(4);
+    });
+
+    it("should compute the sample variance if requested", () => {
+        const result = chainFrom([1, 2, 3, 4]).variance({ sample: true });
+        expect(result).toBeCloseTo(5 / 3);
+    });
+
+    it("should stay precise for large values with small spread", () => {
+        const result = chainFrom([4, 7, 13, 16])
+            .map(n => n + 1e9)
+            .variance();
+        expect(result).toBeCloseTo(22.5);
+    });
+
+    it("should return null if there are too few elements", () => {
+        expect(chainFrom<number>([]).variance()).toEqual(null);
+        expect(chainFrom([1]).variance({ sample: true })).toEqual(null);
+    });
+});
+
+describe("stddev()", () => {
+    it("should compute the standard deviation", () => {
+        const result = chainFrom([2, 4, 4, 4, 5, 5, 7, 9]).stddev();
+        expect(result).toEqual(2);
+    });
+});
+
+describe("median()", () => {
+    it("should return the middle element of an odd number of elements", () => {
+        expect(chainFrom([5, 1, 3]).median()).toEqual(3);
+    });
+
+    it("should average the middle elements of an even number", () => {
+        expect(chainFrom([4, 1, 3, 2]).median()).toEqual(2.5);
+    });
+
+    it("should return null on empty input", () => {
+        expect(chainFrom<number>([]).median()).toEqual(null);
+    });
+});
+
+describe("quantile()", () => {
+    it("should interpolate between the closest elements", () => {
+        const input = [10, 40, 20, 30, 50];
+        expect(chainFrom(input).quantile(0)).toEqual(10);
+        expect(chainFrom(input).quantile(0.25)).toEqual(20);
+        expect(chainFrom(input).quantile(0.9)).toEqual(46);
+        expect(chainFrom(input).quantile(1)).toEqual(50);
+    });
+
+    it("should throw if q is not between 0 and 1", () => {
+        expect(() => chainFrom([1]).quantile(1.5)).toThrow(/between 0 and 1/);
+    });
+});
+
+describe("approximateQuantile()", () => {
+    it("should estimate quantiles of a large input", () => {
+        const input = chainFrom(iterate(1, n => (n * 16807) % 2147483647))
+            .take(20000)
+            .map(n => n / 2147483647)
+            .toArray();
+        [0.1, 0.5, 0.99].forEach(q => {
+            const estimate = chainFrom(input).approximateQuantile(q)!;
+            expect(Math.abs(estimate - q)).toBeLessThan(0.02);
+        });
+    });
+
+    it("should be exact for fewer than five elements", () => {
+        expect(chainFrom([4, 1, 3, 2]).approximateQuantile(0.5)).toEqual(2.5);
+    });
+
+    it("should return the exact minimum and maximum for 0 and 1", () => {
+        expect(chainFrom(range(100)).approximateQuantile(0)).toEqual(0);
+        expect(chainFrom(range(100)).approximateQuantile(1)).toEqual(99);
+    });
+
+    it("should return null on empty input", () => {
+        expect(chainFrom<number>([]).approximateQuantile(0.5)).toEqual(null);
+    });
+});
+
+describe("combine()", () => {
+    it("should compute several results in one pass", () => {
+        const source = trackedIterableFrom([3, 1, 4, 1, 5]);
+        const result = chainFrom(source).reduce(
+            combine({ count: count(), total: sum(), biggest: max() }),
+        );
+        const total: number = result.total;
+        expect(total).toEqual(14);
+        expect(result).toEqual({ count: 5, total: 14, biggest: 5 });
+        expect(source.pulled).toEqual(5);
+    });
+
+    it("should keep feeding branches which are not yet reduced", () => {
+        const result = chainFrom([1, 2, 3, 4]).reduce(
+            combine({ first: first<number>(), all: toArray<number>() }),
+        );
+        expect(result).toEqual({ first: 1, all: [1, 2, 3, 4] });
+    });
+
+    it("should terminate early once every branch is reduced", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const result = chainFrom(source).reduce(
+            combine({
+                first: first<number>(),
+                firstTwo: take<number>(2)(toArray()),
+            }),
+        );
+        expect(result).toEqual({ first: 1, firstTwo: [1, 2] });
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should allow the transformer to be reused", () => {
+        const stats = combine({ count: count(), total: sum() });
+        expect(chainFrom([1, 2]).reduce(stats)).toEqual({
+            count: 2,
+            total: 3,
+        });
+        expect(chainFrom([3]).reduce(stats)).toEqual({ count: 1, total: 3 });
+    });
+});
+
 describe("transducer builder", () => {
     it("should return the identity if no transforms provided", () => {
         const transducer = transducerBuilder<number>().build();
@@ -810,6 +1917,125 @@ describe("transducer builder", () => {
     });
 });
 
+describe("transformer reuse", () => {
+    const input = [1, 1, 2, 3, 3, 4, 5, 6, 6, 7];
+    const transducers: Array<Transducer<number, any>> = [
+        dedupe(),
+        distinct(),
+        distinctBy(n => n % 4),
+        distinctBy(n => n % 4, { hash: n => n % 2, equals: (a, b) => a === b }),
+        drop(2),
+        dropWhile(n => n < 3),
+        flatMap(n => [n, n]),
+        interpose(0),
+        joinOn(
+            range(5),
+            n => n % 3,
+            n => n,
+            { kind: "full" },
+        ),
+        mapIndexed((n, i) => n * i),
+        pairWith(range(4)),
+        partitionAll(3),
+        partitionBy(n => n % 3 === 0),
+        partitionSliding(3, 2, { includePartial: true }),
+        scan(sum()),
+        sort(descending()),
+        take(4),
+        takeNth(2),
+        takeWhile(n => n < 4),
+    ];
+
+    it("should allow a transformer to be reduced more than once", () => {
+        transducers.forEach(transducer => {
+            const transformer = transducer(toArray());
+            const expected = chainFrom(input)
+                .compose(transducer)
+                .toArray();
+            expect(chainFrom(input).reduce(transformer)).toEqual(expected);
+            expect(chainFrom(input).reduce(transformer)).toEqual(expected);
+        });
+    });
+
+    it("should allow a transformer to be reduced simultaneously", () => {
+        transducers.forEach(transducer => {
+            const transformer = transducer(toArray());
+            const expected = chainFrom(input)
+                .compose(transducer)
+                .toArray();
+            let result1 = transformer["@@transducer/init"]();
+            let result2 = transformer["@@transducer/init"]();
+            let isDone1 = false;
+            let isDone2 = false;
+            input.forEach(n => {
+                if (!isDone1) {
+                    const next = transformer["@@transducer/step"](result1, n);
+                    isDone1 = isReduced(next);
+                    result1 = isDone1 ? next["@@transducer/value"] : next;
+                }
+                if (!isDone2) {
+                    const next = transformer["@@transducer/step"](result2, n);
+                    isDone2 = isReduced(next);
+                    result2 = isDone2 ? next["@@transducer/value"] : next;
+                }
+            });
+            expect(transformer["@@transducer/result"](result1)).toEqual(
+                expected,
+            );
+            expect(transformer["@@transducer/result"](result2)).toEqual(
+                expected,
+            );
+        });
+    });
+});
+
+describe("comparator helpers", () => {
+    const words = ["pear", "fig", "apple", "kiwi"];
+
+    it("should order by keys ascending or descending", () => {
+        expect(words.slice().sort(ascending(w => w.length))).toEqual([
+            "fig",
+            "pear",
+            "kiwi",
+            "apple",
+        ]);
+        expect(words.slice().sort(descending())).toEqual([
+            "pear",
+            "kiwi",
+            "fig",
+            "apple",
+        ]);
+    });
+
+    it("should break ties with thenBy()", () => {
+        const comparator = thenBy(
+            descending<string>(w => w.length),
+            ascending(),
+        );
+        expect(words.slice().sort(comparator)).toEqual([
+            "apple",
+            "kiwi",
+            "pear",
+            "fig",
+        ]);
+    });
+
+    it("should put nulls first or last", () => {
+        // Array.prototype.sort() always puts undefined last, so use sort().
+        const input = [2, null, 1, undefined, 3];
+        expect(
+            chainFrom(input)
+                .sort(nullsFirst())
+                .toArray(),
+        ).toEqual([null, undefined, 1, 2, 3]);
+        expect(
+            chainFrom(input)
+                .sort(nullsLast())
+                .toArray(),
+        ).toEqual([1, 2, 3, null, undefined]);
+    });
+});
+
 // ----- Iterables -----
 
 describe("range()", () => {
@@ -890,6 +2116,1025 @@ describe("cycle()", () => {
     });
 });
 
+describe("zip() iterable", () => {
+    it("should produce tuples of corresponding elements", () => {
+        const result: Array<[number, string, boolean]> = Array.from(
+            zip([1, 2, 3], ["a", "b", "c"], [true, false, true]),
+        );
+        expect(result).toEqual([
+            [1, "a", true],
+            [2, "b", false],
+            [3, "c", true],
+        ]);
+    });
+
+    it("should stop at the shortest input and close the others", () => {
+        const longer = trackedIterableFrom([1, 2, 3, 4]);
+        expect(Array.from(zip(longer, ["a", "b"]))).toEqual([
+            [1, "a"],
+            [2, "b"],
+        ]);
+        expect(longer.pulled).toEqual(3);
+        expect(longer.isClosed).toEqual(true);
+    });
+
+    it("should close all inputs when closed early", () => {
+        const input1 = trackedIterableFrom([1, 2, 3]);
+        const input2 = trackedIterableFrom([4, 5, 6]);
+        const result = chainFrom(zip(input1, input2))
+            .take(1)
+            .toArray();
+        expect(result).toEqual([[1, 4]]);
+        expect(input1.isClosed).toEqual(true);
+        expect(input2.isClosed).toEqual(true);
+    });
+
+    it("should be lazy and work with infinite inputs", () => {
+        const result = chainFrom(zip(repeat("x"), range(3))).toArray();
+        expect(result).toEqual([
+            ["x", 0],
+            ["x", 1],
+            ["x", 2],
+        ]);
+    });
+
+    it("should produce an empty iterable from no inputs", () => {
+        expect(Array.from(zip())).toEqual([]);
+    });
+});
+
+describe("zipWith()", () => {
+    it("should combine corresponding elements with a function", () => {
+        const result = Array.from(
+            zipWith((a: number, b: string) => b.repeat(a), [1, 2, 3], "xyz"),
+        );
+        expect(result).toEqual(["x", "yy", "zzz"]);
+    });
+
+    it("should close all inputs if the function throws", () => {
+        const input1 = trackedIterableFrom([1, 2, 3]);
+        const input2 = trackedIterableFrom([4, 5, 6]);
+        const zipped = zipWith(
+            (a: number, b: number) => {
+                if (a === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return a + b;
+            },
+            input1,
+            input2,
+        );
+        expect(() => Array.from(zipped)).toThrow(/Failed on 2/);
+        expect(input1.isClosed).toEqual(true);
+        expect(input2.isClosed).toEqual(true);
+    });
+});
+
+describe("zipLongest()", () => {
+    it("should fill in for inputs which run out first", () => {
+        const result = Array.from(zipLongest(null, [1, 2, 3], ["a"]));
+        expect(result).toEqual([
+            [1, "a"],
+            [2, null],
+            [3, null],
+        ]);
+    });
+
+    it("should stop when every input is done", () => {
+        const result = Array.from(zipLongest(0, [1], [], [2, 3]));
+        expect(result).toEqual([
+            [1, 0, 2],
+            [0, 0, 3],
+        ]);
+    });
+});
+
+describe("concat()", () => {
+    it("should produce the elements of each input in turn", () => {
+        const result = Array.from(concat([1, 2], [], range(3, 5), [5]));
+        expect(result).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should not read later inputs until needed", () => {
+        const input1 = trackedIterableFrom([1, 2]);
+        const input2 = trackedIterableFrom([3, 4]);
+        const result = chainFrom(concat(input1, input2))
+            .take(3)
+            .toArray();
+        expect(result).toEqual([1, 2, 3]);
+        expect(input2.pulled).toEqual(1);
+        expect(input2.isClosed).toEqual(true);
+    });
+
+    it("should work with infinite inputs", () => {
+        const result = chainFrom(concat([1, 2], repeat(0)))
+            .take(4)
+            .toArray();
+        expect(result).toEqual([1, 2, 0, 0]);
+    });
+});
+
+describe("interleave()", () => {
+    it("should take elements from each input in turn", () => {
+        const result = Array.from(interleave([1, 4, 7], [2, 5], [3, 6, 8, 9]));
+        expect(result).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it("should close unfinished inputs when closed early", () => {
+        const input1 = trackedIterableFrom([1, 3, 5]);
+        const input2 = trackedIterableFrom([2, 4, 6]);
+        const result = chainFrom(interleave(input1, input2))
+            .take(3)
+            .toArray();
+        expect(result).toEqual([1, 2, 3]);
+        expect(input1.isClosed).toEqual(true);
+        expect(input2.isClosed).toEqual(true);
+    });
+});
+
+describe("mergeSorted()", () => {
+    const byNumber = (a: number, b: number) => a - b;
+
+    it("should merge sorted inputs into sorted output", () => {
+        const result = Array.from(
+            mergeSorted(byNumber, [1, 4, 9], [2, 3, 10], [], [5, 6, 7, 8]),
+        );
+        expect(result).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it("should keep equal elements in input order", () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        const result = Array.from(
+            mergeSorted(byLength, ["a", "bb", "ccc"], ["d", "ee"], ["f"]),
+        );
+        expect(result).toEqual(["a", "d", "f", "bb", "ee", "ccc"]);
+    });
+
+    it("should only read as many elements as needed", () => {
+        const input1 = trackedIterableFrom([1, 3, 5, 7]);
+        const input2 = trackedIterableFrom([2, 4, 6, 8]);
+        const result = chainFrom(mergeSorted(byNumber, input1, input2))
+            .take(3)
+            .toArray();
+        expect(result).toEqual([1, 2, 3]);
+        expect(input1.pulled).toEqual(2);
+        expect(input2.pulled).toEqual(2);
+        expect(input1.isClosed).toEqual(true);
+        expect(input2.isClosed).toEqual(true);
+    });
+
+    it("should work with infinite inputs", () => {
+        const result = chainFrom(
+            mergeSorted(
+                byNumber,
+                iterate(0, n => n + 3),
+                iterate(1, n => n + 3),
+                iterate(2, n => n + 3),
+            ),
+        )
+            .take(7)
+            .toArray();
+        expect(result).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    });
+});
+
+describe("iterator cleanup", () => {
+    it("should close the source when a reduction terminates early", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const result = chainFrom(source)
+            .map(n => 10 * n)
+            .take(2)
+            .toArray();
+        expect(result).toEqual([10, 20]);
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should close the source when a callback throws", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        expect(() =>
+            chainFrom(source)
+                .map(n => {
+                    if (n === 2) {
+                        throw new Error("Failed on 2");
+                    }
+                    return n;
+                })
+                .toArray(),
+        ).toThrow(/Failed on 2/);
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should close inner iterables of flatMap() on early termination", () => {
+        const inner = trackedIterableFrom([1, 2, 3]);
+        const result = chainFrom([0])
+            .flatMap(() => inner)
+            .first();
+        expect(result).toEqual(1);
+        expect(inner.isClosed).toEqual(true);
+    });
+
+    it("should close the source when an iterator terminates early", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const result = Array.from(
+            chainFrom(source)
+                .take(2)
+                .toIterator(),
+        );
+        expect(result).toEqual([1, 2]);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should forward return() from an iterator to the source", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const iterator = chainFrom(source).toIterator();
+        iterator.next();
+        iterator.next();
+        expect(iterator.return!()).toEqual({ done: true });
+        expect(iterator.next().done).toEqual(true);
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should close the source when a callback throws in an iterator", () => {
+        const source = trackedIterableFrom([1, 2, 3, 4, 5]);
+        const iterator = chainFrom(source)
+            .map(n => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            })
+            .toIterator();
+        expect(iterator.next().value).toEqual(1);
+        expect(() => iterator.next()).toThrow(/Failed on 2/);
+        expect(source.isClosed).toEqual(true);
+        expect(iterator.next().done).toEqual(true);
+    });
+
+    it("should forward throw() from an iterator to the source", () => {
+        function* recovering() {
+            try {
+                yield 1;
+            } catch (error) {
+                yield error.message.length;
+            }
+        }
+        const iterator = chainFrom(recovering())
+            .map(n => 10 * n)
+            .toIterator();
+        expect(iterator.next().value).toEqual(10);
+        expect(iterator.throw!(new Error("abc"))).toEqual({
+            done: false,
+            value: 30,
+        });
+        expect(iterator.next().done).toEqual(true);
+    });
+
+    it("should close the async source when a callback throws", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const promise = chainFromAsync(source)
+            .map(n => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            })
+            .toArray();
+        await expect(promise).rejects.toThrow(/Failed on 2/);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should forward return() from an async iterator", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        for await (const n of chainFromAsync(source).toIterator()) {
+            if (n === 2) {
+                break;
+            }
+        }
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should close the source when an async function rejects", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const promise = chainFromAsync(source)
+            .mapAsync(async n => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            })
+            .toArray();
+        await expect(promise).rejects.toThrow(/Failed on 2/);
+        expect(source.isClosed).toEqual(true);
+    });
+});
+
+// ----- Push -----
+
+describe("into()", () => {
+    it("should transform pushed values", () => {
+        const sink = into(
+            compose(
+                filter((n: number) => n % 2 === 1),
+                map((n: number) => 10 * n),
+            ),
+            toArray(),
+        );
+        [1, 2, 3, 4, 5].forEach(n => sink.next(n));
+        expect(sink.complete()).toEqual([10, 30, 50]);
+    });
+
+    it("should expose the result so far", () => {
+        const sink = into(
+            map((n: number) => 2 * n),
+            toArray(),
+        );
+        expect(sink.result).toEqual([]);
+        sink.next(1);
+        sink.next(2);
+        expect(sink.result).toEqual([2, 4]);
+        expect(sink.done).toEqual(false);
+    });
+
+    it("should accept a reducer and initial value", () => {
+        const sink = into(
+            map((n: number) => 2 * n),
+            (acc: number, n: number) => acc + n,
+            0,
+        );
+        sink.next(1);
+        sink.next(2);
+        expect(sink.result).toEqual(6);
+        expect(sink.complete()).toEqual(6);
+    });
+
+    it("should be done once the transducer terminates early", () => {
+        const sink = into(take<number>(2), toArray());
+        expect(sink.next(1)).toEqual(true);
+        expect(sink.next(2)).toEqual(false);
+        expect(sink.done).toEqual(true);
+        expect(sink.next(3)).toEqual(false);
+        expect(sink.complete()).toEqual([1, 2]);
+    });
+
+    it("should run the completion step only once", () => {
+        const sink = into(partitionAll<number>(2), toArray());
+        [1, 2, 3].forEach(n => sink.next(n));
+        expect(sink.result).toEqual([[1, 2]]);
+        expect(sink.complete()).toEqual([[1, 2], [3]]);
+        expect(sink.complete()).toEqual([[1, 2], [3]]);
+        expect(sink.done).toEqual(true);
+        expect(sink.next(4)).toEqual(false);
+    });
+
+    it("should keep separate state for sinks sharing a transducer", () => {
+        const transducer = take<number>(2);
+        const reducer = toArray<number>();
+        const sink1 = into(transducer, reducer);
+        const sink2 = into(transducer, reducer);
+        sink1.next(1);
+        sink2.next(10);
+        sink1.next(2);
+        expect(sink1.done).toEqual(true);
+        expect(sink2.done).toEqual(false);
+        expect(sink2.next(20)).toEqual(false);
+        expect(sink1.complete()).toEqual([1, 2]);
+        expect(sink2.complete()).toEqual([10, 20]);
+    });
+});
+
+// ----- Async -----
+
+describe("transduceAsync()", () => {
+    it("should transduce an async iterable", async () => {
+        const result = await transduceAsync(
+            asyncIterableFrom([1, 2, 3, 4, 5]),
+            compose(
+                filter((n: number) => n % 2 === 1),
+                map((n: number) => 10 * n),
+            ),
+            toArray(),
+        );
+        expect(result).toEqual([10, 30, 50]);
+    });
+
+    it("should accept a reducer and initial value", async () => {
+        const result = await transduceAsync(
+            asyncIterableFrom([1, 2, 3]),
+            map((n: number) => 2 * n),
+            (acc: number, n: number) => acc + n,
+            0,
+        );
+        expect(result).toEqual(12);
+    });
+
+    it("should accept a synchronous iterable", async () => {
+        const result = await transduceAsync(
+            range(1, 4),
+            map((n: number) => 2 * n),
+            toArray(),
+        );
+        expect(result).toEqual([2, 4, 6]);
+    });
+
+    it("should run the completion step of the transformer", async () => {
+        const result = await transduceAsync(
+            asyncIterableFrom([1, 2, 3, 4, 5]),
+            partitionAll<number>(2),
+            toArray(),
+        );
+        expect(result).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it("should close the source when terminating early", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const result = await transduceAsync(source, take(2), toArray());
+        expect(result).toEqual([1, 2]);
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+});
+
+describe("chainFromAsync()", () => {
+    it("should apply transformations in order", async () => {
+        const result = await chainFromAsync(asyncIterableFrom([1, 2, 3, 4, 5]))
+            .map(n => n + 1)
+            .filter(n => n % 2 === 0)
+            .toArray();
+        expect(result).toEqual([2, 4, 6]);
+    });
+
+    it("should accept a synchronous iterable", async () => {
+        const result = await chainFromAsync(range(3))
+            .map(n => 2 * n)
+            .toArray();
+        expect(result).toEqual([0, 2, 4]);
+    });
+
+    it("should return promises from every reduction", async () => {
+        const chain = () => chainFromAsync(asyncIterableFrom([3, 1, 2]));
+        expect(await chain().count()).toEqual(3);
+        expect(await chain().sum()).toEqual(6);
+        expect(await chain().average()).toEqual(2);
+        expect(await chain().max()).toEqual(3);
+        expect(await chain().min()).toEqual(1);
+        expect(await chain().first()).toEqual(3);
+        expect(await chain().isEmpty()).toEqual(false);
+        expect(await chain().joinToString(",")).toEqual("3,1,2");
+        expect(await chain().toSet()).toEqual(new Set([1, 2, 3]));
+        expect(await chain().toObjectGroupBy(n => n % 2, count())).toEqual({
+            0: 1,
+            1: 2,
+        });
+        expect(await chain().reduce((acc, n) => acc + n, 10)).toEqual(16);
+    });
+
+    it("should resolve forEach() after visiting every element", async () => {
+        const seen: number[] = [];
+        await chainFromAsync(asyncIterableFrom([1, 2, 3])).forEach(n =>
+            seen.push(n),
+        );
+        expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it("should close the source when terminating early", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const result = await chainFromAsync(source).find(n => n > 1);
+        expect(result).toEqual(2);
+        expect(source.pulled).toEqual(2);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should read lazily from toIterator()", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const iterator = chainFromAsync(source)
+            .map(n => 10 * n)
+            .toIterator();
+        expect(iterator[Symbol.asyncIterator]()).toBe(iterator);
+        expect(await iterator.next()).toEqual({ done: false, value: 10 });
+        expect(source.pulled).toEqual(1);
+        const rest: number[] = [];
+        for await (const n of iterator) {
+            rest.push(n);
+        }
+        expect(rest).toEqual([20, 30, 40, 50]);
+    });
+
+    it("should emit the final partition from toIterator()", async () => {
+        const iterator = chainFromAsync(asyncIterableFrom([1, 2, 3, 4, 5]))
+            .partitionAll(2)
+            .toIterator();
+        const result: number[][] = [];
+        for await (const chunk of iterator) {
+            result.push(chunk);
+        }
+        expect(result).toEqual([[1, 2], [3, 4], [5]]);
+    });
+});
+
+describe("mapAsync()", () => {
+    it("should map with an async function", async () => {
+        const result = await chainFromAsync(asyncIterableFrom([1, 2, 3]))
+            .mapAsync(async n => 2 * n)
+            .map(n => n + 1)
+            .toArray();
+        expect(result).toEqual([3, 5, 7]);
+    });
+
+    it("should limit the number of concurrent calls", async () => {
+        let activeCount = 0;
+        let maxActiveCount = 0;
+        const result = await chainFromAsync(range(10))
+            .mapAsync(
+                async n => {
+                    activeCount++;
+                    maxActiveCount = Math.max(maxActiveCount, activeCount);
+                    await delay(n % 3);
+                    activeCount--;
+                    return n;
+                },
+                { concurrency: 3 },
+            )
+            .toArray();
+        expect(result).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(maxActiveCount).toEqual(3);
+    });
+
+    it("should emit in completion order if not ordered", async () => {
+        const result = await chainFromAsync([30, 10, 20])
+            .mapAsync(
+                async n => {
+                    await delay(n);
+                    return n;
+                },
+                { concurrency: 3, ordered: false },
+            )
+            .toArray();
+        expect(result).toEqual([10, 20, 30]);
+    });
+
+    it("should stop starting work after early termination", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5, 6, 7, 8]);
+        let callCount = 0;
+        const result = await chainFromAsync(source)
+            .mapAsync(
+                async n => {
+                    callCount++;
+                    return n;
+                },
+                { concurrency: 2 },
+            )
+            .take(2)
+            .toArray();
+        expect(result).toEqual([1, 2]);
+        expect(callCount).toBeLessThanOrEqual(4);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should reject if the function rejects", async () => {
+        const promise = chainFromAsync([1, 2, 3])
+            .mapAsync(
+                async n => {
+                    if (n === 2) {
+                        throw new Error("Failed on 2");
+                    }
+                    return n;
+                },
+                { concurrency: 2 },
+            )
+            .toArray();
+        await expect(promise).rejects.toThrow(/Failed on 2/);
+    });
+
+    it("should not open the source until the chain is read", async () => {
+        let openCount = 0;
+        const source = {
+            [Symbol.asyncIterator]: () => {
+                openCount++;
+                return asyncIterableFrom([1, 2, 3])[Symbol.asyncIterator]();
+            },
+        };
+        const chain = chainFromAsync(source)
+            .mapAsync(async n => 2 * n)
+            .map(n => n + 1);
+        expect(openCount).toEqual(0);
+        expect(await chain.toArray()).toEqual([3, 5, 7]);
+        expect(openCount).toEqual(1);
+    });
+
+    it("should read an array-based chain again on every reduction", async () => {
+        const chain = chainFromAsync([1, 2, 3]).mapAsync(async n => 2 * n);
+        expect(await chain.toArray()).toEqual([2, 4, 6]);
+        expect(await chain.toArray()).toEqual([2, 4, 6]);
+    });
+
+    it("should throw if concurrency is less than 1", () => {
+        expect(() =>
+            chainFromAsync([1, 2, 3]).mapAsync(async n => n, {
+                concurrency: 0,
+            }),
+        ).toThrow(/at least 1/);
+    });
+});
+
+describe("filterAsync()", () => {
+    it("should remove elements not matching an async predicate", async () => {
+        const result = await chainFromAsync(asyncIterableFrom([1, 2, 3, 4, 5]))
+            .filterAsync(
+                async n => {
+                    await delay(5 - n);
+                    return n % 2 === 0;
+                },
+                { concurrency: 5 },
+            )
+            .toArray();
+        expect(result).toEqual([2, 4]);
+    });
+});
+
+describe("bufferTime()", () => {
+    it("should emit batches of at most the maximum size", async () => {
+        const result = await chainFromAsync(asyncIterableFrom([1, 2, 3, 4, 5]))
+            .bufferTime({ maxSize: 2 })
+            .toArray();
+        expect(result).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    it("should emit batches of at most the maximum weight", async () => {
+        const input = ["ab", "cd", "e", "fgh", "ijklmn", "o"];
+        const result = await chainFromAsync(asyncIterableFrom(input))
+            .bufferTime({ maxWeight: 5, weigh: s => s.length })
+            .toArray();
+        expect(result).toEqual([["ab", "cd", "e"], ["fgh"], ["ijklmn"], ["o"]]);
+    });
+
+    it("should emit a batch once it has waited long enough", async () => {
+        const scheduler = new ManualScheduler();
+        const source = new Channel<number>();
+        const iterator = chainFromAsync(source)
+            .bufferTime({ maxSize: 10, maxWaitMs: 100, scheduler })
+            .map(batch => batch.join())
+            .toIterator();
+        source.push(1);
+        source.push(2);
+        const next = iterator.next();
+        await delay(0);
+        scheduler.advance(99);
+        source.push(3);
+        await delay(0);
+        scheduler.advance(1);
+        expect(await next).toEqual({ done: false, value: "1,2,3" });
+        source.push(4);
+        await delay(0);
+        scheduler.advance(50);
+        source.end();
+        expect(await iterator.next()).toEqual({ done: false, value: "4" });
+        expect(await iterator.next()).toEqual({ done: true });
+        expect(scheduler.pendingCount()).toEqual(0);
+    });
+
+    it("should close the source when terminating early", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const result = await chainFromAsync(source)
+            .bufferTime({ maxSize: 2 })
+            .first();
+        expect(result).toEqual([1, 2]);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should reject and close the source if weigh() throws", async () => {
+        const source = asyncIterableFrom([1, 2, 3, 4, 5]);
+        const promise = chainFromAsync(source)
+            .bufferTime({
+                maxWeight: 3,
+                weigh: n => {
+                    if (n === 2) {
+                        throw new Error("Failed on 2");
+                    }
+                    return 1;
+                },
+            })
+            .toArray();
+        await expect(promise).rejects.toThrow(/Failed on 2/);
+        expect(source.isClosed).toEqual(true);
+    });
+
+    it("should throw if no limit is provided", () => {
+        expect(() => chainFromAsync([1, 2, 3]).bufferTime({})).toThrow(
+            /at least one/,
+        );
+        expect(() =>
+            chainFromAsync([1, 2, 3]).bufferTime({ maxSize: 0 }),
+        ).toThrow(/positive/);
+    });
+});
+
+// ----- Observables -----
+
+describe("transduceObservable()", () => {
+    it("should transform the values of the source", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number>();
+        transduceObservable(
+            source,
+            compose(
+                filter((n: number) => n % 2 === 1),
+                map((n: number) => 10 * n),
+            ),
+        ).subscribe(observer);
+        [1, 2, 3, 4, 5].forEach(n => source.next(n));
+        expect(observer.values).toEqual([10, 30, 50]);
+        expect(observer.isComplete).toEqual(false);
+        source.complete();
+        expect(observer.isComplete).toEqual(true);
+    });
+
+    it("should flush the completion step on complete", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number[]>();
+        transduceObservable(source, partitionAll<number>(2)).subscribe(
+            observer,
+        );
+        [1, 2, 3].forEach(n => source.next(n));
+        expect(observer.values).toEqual([[1, 2]]);
+        source.complete();
+        expect(observer.values).toEqual([[1, 2], [3]]);
+        expect(observer.isComplete).toEqual(true);
+    });
+
+    it("should unsubscribe from the source when terminating early", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number>();
+        transduceObservable(source, take<number>(2)).subscribe(observer);
+        [1, 2].forEach(n => source.next(n));
+        expect(observer.values).toEqual([1, 2]);
+        expect(observer.isComplete).toEqual(true);
+        expect(source.observerCount()).toEqual(0);
+    });
+
+    it("should unsubscribe from a source which emits synchronously", () => {
+        let isUnsubscribed = false;
+        const source: ObservableLike<number> = {
+            subscribe(subscriber) {
+                [1, 2, 3, 4, 5].forEach(n => subscriber.next!(n));
+                return { unsubscribe: () => (isUnsubscribed = true) };
+            },
+        };
+        const observer = new RecordingObserver<number>();
+        transduceObservable(source, take<number>(2)).subscribe(observer);
+        expect(observer.values).toEqual([1, 2]);
+        expect(observer.isComplete).toEqual(true);
+        expect(isUnsubscribed).toEqual(true);
+    });
+
+    it("should pass errors through", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number>();
+        transduceObservable(source, take<number>(2)).subscribe(observer);
+        source.error(new Error("Failed"));
+        expect(observer.caughtError).toEqual(new Error("Failed"));
+        expect(observer.isComplete).toEqual(false);
+    });
+
+    it("should emit an error and unsubscribe if the transducer throws", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number>();
+        transduceObservable(
+            source,
+            map((n: number) => {
+                if (n === 2) {
+                    throw new Error("Failed on 2");
+                }
+                return n;
+            }),
+        ).subscribe(observer);
+        [1, 2, 3].forEach(n => source.next(n));
+        expect(observer.values).toEqual([1]);
+        expect(observer.caughtError).toEqual(new Error("Failed on 2"));
+        expect(source.observerCount()).toEqual(0);
+    });
+
+    it("should keep separate state for each subscription", () => {
+        const source = new Subject<number>();
+        const observable = transduceObservable(source, take<number>(2));
+        const observer1 = new RecordingObserver<number>();
+        const observer2 = new RecordingObserver<number>();
+        observable.subscribe(observer1);
+        source.next(1);
+        observable.subscribe(observer2);
+        source.next(2);
+        source.next(3);
+        expect(observer1.values).toEqual([1, 2]);
+        expect(observer2.values).toEqual([2, 3]);
+    });
+
+    it("should unsubscribe from the source when unsubscribed", () => {
+        const source = new Subject<number>();
+        const observer = new RecordingObserver<number>();
+        const subscription = transduceObservable(
+            source,
+            map((n: number) => n),
+        ).subscribe(observer);
+        source.next(1);
+        subscription.unsubscribe();
+        source.next(2);
+        expect(observer.values).toEqual([1]);
+        expect(source.observerCount()).toEqual(0);
+    });
+
+    it("should use and provide Symbol.observable", () => {
+        const source = new Subject<number>();
+        const interop = { [OBSERVABLE_SYMBOL]: () => source } as any;
+        const observable = transduceObservable<number, number>(
+            interop,
+            map((n: number) => 2 * n),
+        );
+        const observer = new RecordingObserver<number>();
+        (observable as any)[OBSERVABLE_SYMBOL]().subscribe(observer);
+        source.next(1);
+        expect(observer.values).toEqual([2]);
+    });
+});
+
+class ManualScheduler implements Scheduler {
+    private now = 0;
+    private nextId = 0;
+    private timers: Array<{ id: number; time: number; callback(): void }> = [];
+
+    public setTimeout(callback: () => void, ms: number): number {
+        const id = this.nextId++;
+        this.timers.push({ id, time: this.now + ms, callback });
+        return id;
+    }
+
+    public clearTimeout(id: number): void {
+        this.timers = this.timers.filter(timer => timer.id !== id);
+    }
+
+    public advance(ms: number): void {
+        this.now += ms;
+        const due = this.timers.filter(timer => timer.time <= this.now);
+        this.timers = this.timers.filter(timer => timer.time > this.now);
+        due.forEach(timer => timer.callback());
+    }
+
+    public pendingCount(): number {
+        return this.timers.length;
+    }
+}
+
+/**
+ * An async iterable whose elements are pushed by the test.
+ */
+class Channel<T> implements AsyncIterable<T> {
+    private readonly values: T[] = [];
+    private isEnded = false;
+    private wakeUp: (() => void) | undefined;
+
+    public push(value: T): void {
+        this.values.push(value);
+        this.notify();
+    }
+
+    public end(): void {
+        this.isEnded = true;
+        this.notify();
+    }
+
+    public async *[Symbol.asyncIterator]() {
+        while (true) {
+            if (this.values.length > 0) {
+                yield this.values.shift()!;
+            } else if (this.isEnded) {
+                return;
+            } else {
+                await new Promise<void>(resolve => (this.wakeUp = resolve));
+            }
+        }
+    }
+
+    private notify(): void {
+        const { wakeUp } = this;
+        this.wakeUp = undefined;
+        if (wakeUp) {
+            wakeUp();
+        }
+    }
+}
+
+interface TrackedIterable<T> extends Iterable<T> {
+    pulled: number;
+    isClosed: boolean;
+}
+
+function trackedIterableFrom<T>(values: T[]): TrackedIterable<T> {
+    const iterable: TrackedIterable<T> = {
+        pulled: 0,
+        isClosed: false,
+        *[Symbol.iterator]() {
+            try {
+                for (const value of values) {
+                    iterable.pulled++;
+                    yield value;
+                }
+            } finally {
+                iterable.isClosed = true;
+            }
+        },
+    };
+    return iterable;
+}
+
+interface TrackedAsyncIterable<T> extends AsyncIterable<T> {
+    pulled: number;
+    isClosed: boolean;
+}
+
+function asyncIterableFrom<T>(values: T[]): TrackedAsyncIterable<T> {
+    const iterable: TrackedAsyncIterable<T> = {
+        pulled: 0,
+        isClosed: false,
+        async *[Symbol.asyncIterator]() {
+            try {
+                for (const value of values) {
+                    iterable.pulled++;
+                    yield value;
+                }
+            } finally {
+                iterable.isClosed = true;
+            }
+        },
+    };
+    return iterable;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 function getIterableIterator<T>(iterable: Iterable<T>): IterableIterator<T> {
     return iterable[Symbol.iterator]() as IterableIterator<T>;
 }
+
+const OBSERVABLE_SYMBOL = (Symbol as any).observable || "@@observable";
+
+/**
+ * A minimal observable whose values are pushed by the test.
+ */
+class Subject<T> implements ObservableLike<T> {
+    private observers: Array<ObserverLike<T>> = [];
+
+    public subscribe(observer: ObserverLike<T>) {
+        this.observers.push(observer);
+        return {
+            unsubscribe: () => {
+                this.observers = this.observers.filter(o => o !== observer);
+            },
+        };
+    }
+
+    public next(value: T): void {
+        this.observers.slice().forEach(o => o.next && o.next(value));
+    }
+
+    public error(error: any): void {
+        this.observers.slice().forEach(o => o.error && o.error(error));
+    }
+
+    public complete(): void {
+        this.observers.slice().forEach(o => o.complete && o.complete());
+    }
+
+    public observerCount(): number {
+        return this.observers.length;
+    }
+}
+
+class RecordingObserver<T> implements ObserverLike<T> {
+    public readonly values: T[] = [];
+    public caughtError: any;
+    public isComplete = false;
+
+    public next(value: T): void {
+        this.values.push(value);
+    }
+
+    public error(error: any): void {
+        this.caughtError = error;
+    }
+
+    public complete(): void {
+        this.isComplete = true;
+    }
+}
+
+function parseStrict(s: string): number {
+    const n = Number(s);
+    if (isNaN(n)) {
+        throw new Error(`Not a number: ${s}`);
+    }
+    return n;
+}
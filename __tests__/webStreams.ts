@@ -0,0 +1,113 @@
+import {
+    chainFromAsync,
+    fromReadableStream,
+    map,
+    partitionAll,
+    take,
+    toArray,
+    toTransformStream,
+    transduceAsync,
+    transducerBuilder,
+} from "../src/index";
+
+// Node's web streams stand in for those of a browser. They are untyped here,
+// since this project does not use DOM typings and this version of the Node
+// typings predates them.
+// tslint:disable-next-line: no-var-requires no-submodule-imports
+const { ReadableStream, TransformStream } = require("stream/web");
+
+beforeAll(() => {
+    (global as any).TransformStream = TransformStream;
+});
+
+afterAll(() => {
+    delete (global as any).TransformStream;
+});
+
+describe("toTransformStream()", () => {
+    it("should apply the transducer to chunks piped through it", async () => {
+        const source = trackedReadableStreamFrom([1, 2, 3, 4, 5]);
+        const output = source.stream.pipeThrough(
+            toTransformStream(
+                transducerBuilder<number>()
+                    .filter(n => n % 2 === 1)
+                    .map(n => n * 10)
+                    .build(),
+            ),
+        );
+        const result = await chainFromAsync(
+            fromReadableStream<number>(output),
+        ).toArray();
+        expect(result).toEqual([10, 30, 50]);
+    });
+
+    it("should emit the tail of a partition when the input ends", async () => {
+        const output = trackedReadableStreamFrom([1, 2, 3]).stream.pipeThrough(
+            toTransformStream(partitionAll(2)),
+        );
+        const result = await chainFromAsync(
+            fromReadableStream<number[]>(output),
+        ).toArray();
+        expect(result).toEqual([[1, 2], [3]]);
+    });
+
+    it("should close the output and cancel the source when done", async () => {
+        const source = trackedReadableStreamFrom([1, 2, 3, 4, 5]);
+        const output = source.stream.pipeThrough(toTransformStream(take(2)));
+        const result = await chainFromAsync(
+            fromReadableStream<number>(output),
+        ).toArray();
+        expect(result).toEqual([1, 2]);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(source.isCancelled).toEqual(true);
+    });
+});
+
+describe("fromReadableStream()", () => {
+    it("should produce the chunks of the stream", async () => {
+        const source = trackedReadableStreamFrom(["a", "b", "c"]);
+        const result = await transduceAsync(
+            fromReadableStream<string>(source.stream),
+            map((s: string) => s.toUpperCase()),
+            toArray(),
+        );
+        expect(result).toEqual(["A", "B", "C"]);
+        expect(source.isCancelled).toEqual(false);
+    });
+
+    it("should cancel the stream when a reduction stops early", async () => {
+        const source = trackedReadableStreamFrom([1, 2, 3, 4, 5]);
+        const result = await chainFromAsync(
+            fromReadableStream<number>(source.stream),
+        )
+            .take(2)
+            .toArray();
+        expect(result).toEqual([1, 2]);
+        expect(source.isCancelled).toEqual(true);
+    });
+});
+
+interface TrackedReadableStream {
+    stream: any;
+    isCancelled: boolean;
+}
+
+function trackedReadableStreamFrom<T>(values: T[]): TrackedReadableStream {
+    let i = 0;
+    const tracked: TrackedReadableStream = {
+        stream: new ReadableStream({
+            pull(controller: any) {
+                if (i < values.length) {
+                    controller.enqueue(values[i++]);
+                } else {
+                    controller.close();
+                }
+            },
+            cancel() {
+                tracked.isCancelled = true;
+            },
+        }),
+        isCancelled: false,
+    };
+    return tracked;
+}
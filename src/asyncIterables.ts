@@ -0,0 +1,581 @@
+import { getIterator, TransducerStepper } from "./iterables";
+import { Transducer } from "./types";
+
+export const ASYNC_ITERATOR_SYMBOL =
+    typeof Symbol !== "undefined" && Symbol.asyncIterator
+        ? Symbol.asyncIterator
+        : ("@@asyncIterator" as any);
+
+/**
+ * Returns an async iterator for either an async iterable or an ordinary
+ * iterable, so that async reductions can also be started from synchronous
+ * sources such as arrays.
+ */
+export function getAsyncIterator<T>(
+    collection: AsyncIterable<T> | Iterable<T>,
+): AsyncIterator<T> {
+    const anyCollection: any = collection;
+    if (anyCollection != null && anyCollection[ASYNC_ITERATOR_SYMBOL]) {
+        return anyCollection[ASYNC_ITERATOR_SYMBOL]();
+    } else {
+        return new SyncToAsyncIterator(getIterator(collection as Iterable<T>));
+    }
+}
+
+/**
+ * Like closeIterator(), for async iterators.
+ */
+export async function closeAsyncIterator(
+    iterator: AsyncIterator<any>,
+): Promise<void> {
+    if (iterator.return) {
+        await iterator.return();
+    }
+}
+
+/**
+ * Like closeIteratorAfterError(), for async iterators.
+ */
+export async function closeAsyncIteratorAfterError(
+    iterator: AsyncIterator<any>,
+): Promise<void> {
+    try {
+        await closeAsyncIterator(iterator);
+    } catch (_) {
+        // Ignored in favor of the original error.
+    }
+}
+
+/**
+ * Adapts a synchronous iterator to the async iterator protocol.
+ */
+class SyncToAsyncIterator<T> implements AsyncIterator<T> {
+    constructor(private readonly iterator: Iterator<T>) {}
+
+    public [ASYNC_ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        return new Promise(resolve => resolve(this.iterator.next()));
+    }
+
+    public return(value?: any): Promise<IteratorResult<T>> {
+        const { iterator } = this;
+        return new Promise(resolve =>
+            resolve(
+                iterator.return
+                    ? iterator.return(value)
+                    : ({ done: true, value } as any),
+            ),
+        );
+    }
+}
+
+/**
+ * An async iterable which enables lazy consumption of the output of a
+ * transducer-based transform applied to an async source. Outputs produced by a
+ * single step are buffered until they are read.
+ */
+class TransducerAsyncIterable<TInput, TOutput>
+    implements AsyncIterator<TOutput> {
+    private readonly stepper: TransducerStepper<TInput, TOutput>;
+
+    constructor(
+        private readonly iterator: AsyncIterator<TInput>,
+        transform: Transducer<TInput, TOutput>,
+    ) {
+        this.stepper = new TransducerStepper(transform);
+    }
+
+    public [ASYNC_ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public async next(): Promise<IteratorResult<TOutput>> {
+        const { stepper } = this;
+        while (true) {
+            if (stepper.hasOutput()) {
+                return { done: false, value: stepper.takeOutput() };
+            } else if (stepper.isDone) {
+                return { done: true } as any;
+            }
+            const input = await this.iterator.next();
+            if (!stepper.isDone) {
+                // Otherwise, closed by return() while waiting.
+                await this.step(input);
+            }
+        }
+    }
+
+    public async return(value?: any): Promise<IteratorResult<TOutput>> {
+        if (!this.stepper.isDone) {
+            this.stepper.end();
+            await closeAsyncIterator(this.iterator);
+        }
+        return { done: true, value };
+    }
+
+    /**
+     * Forwards the error to the source iterator, as in the synchronous
+     * version.
+     */
+    public async throw(error?: any): Promise<IteratorResult<TOutput>> {
+        const { iterator, stepper } = this;
+        if (stepper.isDone) {
+            throw error;
+        } else if (!iterator.throw) {
+            stepper.end();
+            await closeAsyncIteratorAfterError(iterator);
+            throw error;
+        }
+        let input: IteratorResult<TInput>;
+        try {
+            input = await iterator.throw(error);
+        } catch (e) {
+            stepper.end();
+            throw e;
+        }
+        await this.step(input);
+        return this.next();
+    }
+
+    private async step(input: IteratorResult<TInput>): Promise<void> {
+        const { stepper } = this;
+        if (input.done) {
+            stepper.complete();
+            return;
+        }
+        let isReducedStep: boolean;
+        try {
+            isReducedStep = stepper.step(input.value);
+        } catch (error) {
+            await closeAsyncIteratorAfterError(this.iterator);
+            throw error;
+        }
+        if (isReducedStep) {
+            await closeAsyncIterator(this.iterator);
+            stepper.complete();
+        }
+    }
+}
+
+export function lazyTransduceAsync<TInput, TOutput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    transform: Transducer<TInput, TOutput>,
+): AsyncIterableIterator<TOutput> {
+    return new TransducerAsyncIterable(
+        getAsyncIterator(collection),
+        transform,
+    ) as any;
+}
+
+export interface MapAsyncOptions {
+    /** Maximum number of unread results at once. Defaults to 1. */
+    concurrency?: number;
+    /**
+     * If true (the default), results are emitted in the order of their inputs.
+     * Otherwise, they are emitted in the order in which they settle.
+     */
+    ordered?: boolean;
+}
+
+interface PendingResult<T> {
+    isSettled: boolean;
+    isRejected: boolean;
+    value?: T;
+    error?: any;
+}
+
+/**
+ * Reads promises from the source and awaits up to `concurrency` of them at
+ * once. Since the promises are created as the source is read, no new work is
+ * started once this iterator is closed.
+ */
+class ConcurrentAsyncIterator<T> implements AsyncIterator<T> {
+    private readonly concurrency: number;
+    private readonly ordered: boolean;
+    // Unread results. When ordered, this is in input order and may contain
+    // results which have not yet settled. Otherwise, it only contains settled
+    // results, in settlement order.
+    private readonly results: Array<PendingResult<T>> = [];
+    private inFlightCount = 0;
+    private isPulling = false;
+    private isSourceDone = false;
+    private isClosed = false;
+    private sourceError: { error: any } | undefined;
+    private wakeUp: (() => void) | undefined;
+
+    constructor(
+        private readonly source: AsyncIterator<T | PromiseLike<T>>,
+        options: MapAsyncOptions,
+    ) {
+        validateMapAsyncOptions(options);
+        const { concurrency = 1, ordered = true } = options;
+        this.concurrency = concurrency;
+        this.ordered = ordered;
+    }
+
+    public [ASYNC_ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public async next(): Promise<IteratorResult<T>> {
+        while (true) {
+            this.fill();
+            const { results } = this;
+            if (results.length > 0 && results[0].isSettled) {
+                const result = results.shift()!;
+                if (result.isRejected) {
+                    await closeAsyncIteratorAfterError(this);
+                    throw result.error;
+                }
+                return { done: false, value: result.value as T };
+            } else if (this.sourceError) {
+                const { error } = this.sourceError;
+                this.sourceError = undefined;
+                this.isClosed = true;
+                throw error;
+            } else if (
+                this.isClosed ||
+                (this.isSourceDone && this.inFlightCount === 0)
+            ) {
+                return { done: true } as any;
+            }
+            await new Promise<void>(resolve => (this.wakeUp = resolve));
+        }
+    }
+
+    public async return(): Promise<IteratorResult<T>> {
+        if (!this.isClosed) {
+            this.isClosed = true;
+            this.results.length = 0;
+            if (!this.isSourceDone) {
+                await closeAsyncIterator(this.source);
+            }
+        }
+        return { done: true } as any;
+    }
+
+    private fill(): void {
+        const unreadCount = this.ordered
+            ? this.results.length
+            : this.inFlightCount + this.results.length;
+        if (
+            this.isPulling ||
+            this.isSourceDone ||
+            this.isClosed ||
+            unreadCount >= this.concurrency
+        ) {
+            return;
+        }
+        this.isPulling = true;
+        this.source.next().then(
+            input => {
+                this.isPulling = false;
+                if (input.done) {
+                    this.isSourceDone = true;
+                } else if (!this.isClosed) {
+                    this.launch(input.value);
+                    this.fill();
+                }
+                this.notify();
+            },
+            error => {
+                this.isPulling = false;
+                this.isSourceDone = true;
+                this.sourceError = { error };
+                this.notify();
+            },
+        );
+    }
+
+    private launch(promise: T | PromiseLike<T>): void {
+        const result: PendingResult<T> = {
+            isSettled: false,
+            isRejected: false,
+        };
+        this.inFlightCount++;
+        if (this.ordered) {
+            this.results.push(result);
+        }
+        const settle = () => {
+            result.isSettled = true;
+            this.inFlightCount--;
+            if (!this.ordered && !this.isClosed) {
+                this.results.push(result);
+            }
+            this.fill();
+            this.notify();
+        };
+        Promise.resolve(promise).then(
+            value => {
+                result.value = value;
+                settle();
+            },
+            error => {
+                result.isRejected = true;
+                result.error = error;
+                settle();
+            },
+        );
+    }
+
+    private notify(): void {
+        const { wakeUp } = this;
+        if (wakeUp) {
+            this.wakeUp = undefined;
+            wakeUp();
+        }
+    }
+}
+
+/**
+ * Throws if the options are invalid. Chains call this when mapAsync() is
+ * added, since the iterator which also checks them is not created until the
+ * chain is read.
+ */
+export function validateMapAsyncOptions(options: MapAsyncOptions): void {
+    const { concurrency = 1 } = options;
+    if (!(concurrency >= 1)) {
+        throw new Error("Concurrency must be at least 1");
+    }
+}
+
+export function awaitConcurrently<T>(
+    collection: AsyncIterable<T | PromiseLike<T>>,
+    options: MapAsyncOptions = {},
+): AsyncIterableIterator<T> {
+    return new ConcurrentAsyncIterator(
+        getAsyncIterator(collection),
+        options,
+    ) as any;
+}
+
+/**
+ * Schedules the timers used by bufferTime(). May be replaced to control time
+ * in tests.
+ */
+export interface Scheduler {
+    setTimeout(callback: () => void, ms: number): any;
+    clearTimeout(handle: any): void;
+}
+
+export interface BufferTimeOptions<T> {
+    /** Emits a batch once it contains this many elements. */
+    maxSize?: number;
+    /** Emits a batch once its first element has waited this long. */
+    maxWaitMs?: number;
+    /**
+     * Emits a batch once the total weight of its elements reaches this. An
+     * element which would take a batch past this weight starts a new batch.
+     */
+    maxWeight?: number;
+    /** Computes the weight of each element. Defaults to 1 for every element. */
+    weigh?: (item: T) => number;
+    /** Defaults to the global setTimeout() and clearTimeout(). */
+    scheduler?: Scheduler;
+}
+
+const DEFAULT_SCHEDULER: Scheduler = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle),
+};
+
+/**
+ * Groups elements into batches, emitting each batch when it is full or when it
+ * has waited long enough, whichever comes first. Batches may be emitted by the
+ * timer while waiting for the source to produce its next element.
+ */
+class BufferTimeIterator<T> implements AsyncIterator<T[]> {
+    private readonly maxSize: number;
+    private readonly maxWaitMs: number;
+    private readonly maxWeight: number;
+    private readonly weigh: ((item: T) => number) | undefined;
+    private readonly scheduler: Scheduler;
+    private readonly batches: T[][] = [];
+    private batch: T[] = [];
+    private batchWeight = 0;
+    private timer: any;
+    private isPulling = false;
+    private isSourceDone = false;
+    private isClosed = false;
+    private sourceError: { error: any } | undefined;
+    private wakeUp: (() => void) | undefined;
+
+    constructor(
+        private readonly source: AsyncIterator<T>,
+        options: BufferTimeOptions<T>,
+    ) {
+        validateBufferTimeOptions(options);
+        const {
+            maxSize = Number.POSITIVE_INFINITY,
+            maxWaitMs = Number.POSITIVE_INFINITY,
+            maxWeight = Number.POSITIVE_INFINITY,
+            weigh,
+            scheduler = DEFAULT_SCHEDULER,
+        } = options;
+        this.maxSize = maxSize;
+        this.maxWaitMs = maxWaitMs;
+        this.maxWeight = maxWeight;
+        this.weigh = weigh;
+        this.scheduler = scheduler;
+    }
+
+    public [ASYNC_ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public async next(): Promise<IteratorResult<T[]>> {
+        while (true) {
+            if (this.batches.length > 0) {
+                return { done: false, value: this.batches.shift()! };
+            } else if (this.sourceError) {
+                const { error } = this.sourceError;
+                this.sourceError = undefined;
+                this.isClosed = true;
+                throw error;
+            } else if (this.isSourceDone || this.isClosed) {
+                return { done: true } as any;
+            }
+            this.pull();
+            await new Promise<void>(resolve => (this.wakeUp = resolve));
+        }
+    }
+
+    public async return(): Promise<IteratorResult<T[]>> {
+        if (!this.isClosed) {
+            this.isClosed = true;
+            this.clearTimer();
+            this.batches.length = 0;
+            this.batch = [];
+            if (!this.isSourceDone) {
+                await closeAsyncIterator(this.source);
+            }
+        }
+        return { done: true } as any;
+    }
+
+    private pull(): void {
+        if (this.isPulling) {
+            return;
+        }
+        this.isPulling = true;
+        this.source.next().then(
+            input => {
+                this.isPulling = false;
+                if (this.isClosed) {
+                    return;
+                } else if (input.done) {
+                    this.isSourceDone = true;
+                    this.flush();
+                } else {
+                    try {
+                        this.add(input.value);
+                    } catch (error) {
+                        // Thrown by weigh(). The source is not done, so it is
+                        // closed before the error is reported.
+                        this.isSourceDone = true;
+                        this.sourceError = { error };
+                        this.flush();
+                        closeAsyncIteratorAfterError(this.source).then(() =>
+                            this.notify(),
+                        );
+                        return;
+                    }
+                }
+                this.notify();
+            },
+            error => {
+                this.isPulling = false;
+                this.isSourceDone = true;
+                this.sourceError = { error };
+                this.flush();
+                this.notify();
+            },
+        );
+    }
+
+    private add(item: T): void {
+        const weight = this.weigh ? this.weigh(item) : 1;
+        if (
+            this.batch.length > 0 &&
+            this.batchWeight + weight > this.maxWeight
+        ) {
+            this.flush();
+        }
+        if (
+            this.batch.length === 0 &&
+            this.maxWaitMs !== Number.POSITIVE_INFINITY
+        ) {
+            this.timer = this.scheduler.setTimeout(() => {
+                this.timer = undefined;
+                this.flush();
+                this.notify();
+            }, this.maxWaitMs);
+        }
+        this.batch.push(item);
+        this.batchWeight += weight;
+        if (
+            this.batch.length >= this.maxSize ||
+            this.batchWeight >= this.maxWeight
+        ) {
+            this.flush();
+        }
+    }
+
+    private flush(): void {
+        this.clearTimer();
+        if (this.batch.length > 0) {
+            this.batches.push(this.batch);
+            this.batch = [];
+            this.batchWeight = 0;
+        }
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== undefined) {
+            this.scheduler.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private notify(): void {
+        const { wakeUp } = this;
+        if (wakeUp) {
+            this.wakeUp = undefined;
+            wakeUp();
+        }
+    }
+}
+
+/**
+ * Like validateMapAsyncOptions(), for bufferTime().
+ */
+export function validateBufferTimeOptions<T>(
+    options: BufferTimeOptions<T>,
+): void {
+    const {
+        maxSize = Number.POSITIVE_INFINITY,
+        maxWaitMs = Number.POSITIVE_INFINITY,
+        maxWeight = Number.POSITIVE_INFINITY,
+    } = options;
+    if (!(maxSize > 0) || !(maxWaitMs > 0) || !(maxWeight > 0)) {
+        throw new Error("Limits in bufferTime() must be positive if provided");
+    } else if (
+        maxSize === Number.POSITIVE_INFINITY &&
+        maxWaitMs === Number.POSITIVE_INFINITY &&
+        maxWeight === Number.POSITIVE_INFINITY
+    ) {
+        throw new Error(
+            "bufferTime() requires at least one of maxSize, maxWaitMs, or maxWeight",
+        );
+    }
+}
+
+export function bufferTime<T>(
+    collection: AsyncIterable<T>,
+    options: BufferTimeOptions<T>,
+): AsyncIterableIterator<T[]> {
+    return new BufferTimeIterator(getAsyncIterator(collection), options) as any;
+}
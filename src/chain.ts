@@ -1,38 +1,81 @@
-import { transduce } from "./core";
+import {
+    ASYNC_ITERATOR_SYMBOL,
+    awaitConcurrently,
+    bufferTime,
+    BufferTimeOptions,
+    getAsyncIterator,
+    lazyTransduceAsync,
+    MapAsyncOptions,
+    validateBufferTimeOptions,
+    validateMapAsyncOptions,
+} from "./asyncIterables";
+import { ReducerWrappingTransformer, transduce, transduceAsync } from "./core";
 import { lazyTransduce } from "./iterables";
 import {
+    approximateQuantile,
+    bottomK,
+    collectErrors,
+    combine,
     count,
+    countBy,
     every,
     find,
     first,
     forEach,
+    frequencies,
+    histogram,
+    HistogramBucket,
+    HistogramOptions,
     isEmpty,
     joinToString,
     max,
+    maxBy,
+    median,
     min,
+    minBy,
+    partition,
+    quantile,
     some,
+    stddev,
     sum,
     toArray,
     toAverage,
     toMap,
     toMapGroupBy,
     toObject,
+    toObjectCountBy,
     toObjectGroupBy,
+    topK,
     toSet,
+    variance,
+    VarianceOptions,
+    WithErrors,
 } from "./reducers";
 import {
+    catchError,
     dedupe,
+    distinct,
+    distinctBy,
     drop,
     dropWhile,
     filter,
     flatMap,
     flatten,
     interpose,
+    joinOn,
+    JoinOptions,
     map,
     mapIndexed,
+    mapTry,
+    pairWith,
     partitionAll,
     partitionBy,
+    partitionSliding,
+    PartitionSlidingOptions,
     remove,
+    scan,
+    sort,
+    sortBy,
     take,
     takeNth,
     takeWhile,
@@ -40,15 +83,25 @@ import {
 import {
     Comparator,
     CompletingTransformer,
+    Equivalence,
     QuittingReducer,
     Transducer,
+    TryResult,
 } from "./types";
 
 export interface TransformChain<T> {
     // tslint:disable: member-ordering
     compose<U>(transducer: Transducer<T, U>): TransformChain<U>;
 
+    catchError(
+        handler: (error: any, input: T) => Iterable<T>,
+    ): TransformChain<T>;
     dedupe(): TransformChain<T>;
+    distinct(): TransformChain<T>;
+    distinctBy<K>(
+        getKey: (item: T) => K,
+        equivalence?: Equivalence<K>,
+    ): TransformChain<T>;
     drop(n: number): TransformChain<T>;
     dropWhile(pred: (item: T) => boolean): TransformChain<T>;
     filter<U extends T>(pred: (item: T) => item is U): TransformChain<U>;
@@ -56,19 +109,48 @@ export interface TransformChain<T> {
     flatMap<U>(f: (item: T) => Iterable<U>): TransformChain<U>;
     flatten: T extends Iterable<infer U> ? () => TransformChain<U> : void;
     interpose(separator: T): TransformChain<T>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options?: JoinOptions & { kind?: "inner" },
+    ): TransformChain<[T, U]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions & { kind: "left" },
+    ): TransformChain<[T, U | null]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions,
+    ): TransformChain<[T | null, U | null]>;
     map<U>(f: (item: T) => U): TransformChain<U>;
     mapIndexed<U>(f: (item: T, index: number) => U): TransformChain<U>;
+    mapTry<U>(f: (item: T) => U): TransformChain<TryResult<T, U>>;
     partitionAll(n: number): TransformChain<T[]>;
     partitionBy(pred: (item: T) => any): TransformChain<T[]>;
+    partitionSliding(
+        size: number,
+        step?: number,
+        options?: PartitionSlidingOptions,
+    ): TransformChain<T[]>;
     remove<U extends T>(
         pred: (item: T) => item is U,
     ): TransformChain<Exclude<T, U>>;
     remove(pred: (item: T) => boolean): TransformChain<T>;
     removeAbsent(): TransformChain<NonNullable<T>>;
+    scan<U>(reducer: QuittingReducer<U, T>, initialValue: U): TransformChain<U>;
+    scan<U>(transformer: CompletingTransformer<any, U, T>): TransformChain<U>;
+    sort(comparator?: Comparator<T>): TransformChain<T>;
+    sortBy(...getKeys: Array<(item: T) => any>): TransformChain<T>;
     take(n: number): TransformChain<T>;
     takeNth(n: number): TransformChain<T>;
     takeWhile<U extends T>(pred: (item: T) => item is U): TransformChain<U>;
     takeWhile(pred: (item: T) => boolean): TransformChain<T>;
+    zip<U>(other: Iterable<U>): TransformChain<[T, U]>;
 
     reduce<TResult>(
         reducer: QuittingReducer<TResult, T>,
@@ -78,22 +160,64 @@ export interface TransformChain<T> {
         transformer: CompletingTransformer<TResult, TCompleteResult, T>,
     ): TCompleteResult;
 
+    approximateQuantile: T extends number ? (q: number) => number | null : void;
     average: T extends number ? () => number | null : void;
+    bottomK: T extends number
+        ? (k: number, comparator?: Comparator<number>) => number[]
+        : (k: number, comparator: Comparator<T>) => T[];
+    branch<B extends Record<string, (chain: TransformChain<T>) => any>>(
+        branches: B,
+    ): BranchResults<B>;
+    collectErrors: [T] extends [TryResult<infer I, infer O>]
+        ? {
+              (): WithErrors<O[], I>;
+              <R>(transformer: CompletingTransformer<any, R, O>): WithErrors<
+                  R,
+                  I
+              >;
+          }
+        : void;
     count(): number;
+    countBy<K>(getKey: (item: T) => K): Map<K, number>;
     every(pred: (item: T) => boolean): boolean;
     find<U extends T>(pred: (item: T) => item is U): U | null;
     find(pred: (item: T) => boolean): T | null;
     first(): T | null;
     forEach(f: (item: T) => void): void;
+    frequencies(): Map<T, number>;
+    histogram: T extends number
+        ? (options: HistogramOptions) => HistogramBucket[]
+        : void;
     isEmpty(): boolean;
     joinToString(separator: string): string;
     max: T extends number
         ? (comparator?: Comparator<number>) => number | null
         : (comparator: Comparator<T>) => T | null;
+    maxBy(getKey: (item: T) => any): T | null;
+    median: T extends number ? () => number | null : void;
     min: T extends number
         ? (comparator?: Comparator<number>) => number | null
         : (comparator: Comparator<T>) => T | null;
+    minBy(getKey: (item: T) => any): T | null;
+    partition<U extends T>(
+        pred: (item: T) => item is U,
+    ): [U[], Array<Exclude<T, U>>];
+    partition(pred: (item: T) => boolean): [T[], T[]];
+    partition<U extends T, A, B>(
+        pred: (item: T) => item is U,
+        matching: CompletingTransformer<any, A, U>,
+        nonMatching: CompletingTransformer<any, B, Exclude<T, U>>,
+    ): [A, B];
+    partition<A, B>(
+        pred: (item: T) => boolean,
+        matching: CompletingTransformer<any, A, T>,
+        nonMatching: CompletingTransformer<any, B, T>,
+    ): [A, B];
+    quantile: T extends number ? (q: number) => number | null : void;
     some(pred: (item: T) => boolean): boolean;
+    stddev: T extends number
+        ? (options?: VarianceOptions) => number | null
+        : void;
     sum: T extends number ? () => number : void;
     toArray(): T[];
     toMap<K, V>(getKey: (item: T) => K, getValue: (item: T) => V): Map<K, V>;
@@ -106,6 +230,9 @@ export interface TransformChain<T> {
         getKey: (item: T) => K,
         getValue: (item: T) => V,
     ): Record<K, V>;
+    toObjectCountBy<K extends keyof any>(
+        getKey: (item: T) => K,
+    ): Record<K, number>;
     toObjectGroupBy<K extends keyof any>(
         getKey: (item: T) => K,
     ): Record<K, T[]>;
@@ -113,17 +240,221 @@ export interface TransformChain<T> {
         getKey: (item: T) => K,
         transformer: CompletingTransformer<any, V, T>,
     ): Record<K, V>;
+    topK: T extends number
+        ? (k: number, comparator?: Comparator<number>) => number[]
+        : (k: number, comparator: Comparator<T>) => T[];
     toSet(): Set<T>;
+    variance: T extends number
+        ? (options?: VarianceOptions) => number | null
+        : void;
 
     toIterator(): IterableIterator<T>;
     // tslint:enable: member-ordering
 }
 
+/**
+ * The values returned by the callbacks passed to branch(), under the same keys.
+ */
+export type BranchResults<
+    B extends Record<string, (chain: TransformChain<any>) => any>
+> = { [K in keyof B]: ReturnType<B[K]> };
+
+export interface AsyncTransformChain<T> {
+    // tslint:disable: member-ordering
+    compose<U>(transducer: Transducer<T, U>): AsyncTransformChain<U>;
+
+    catchError(
+        handler: (error: any, input: T) => Iterable<T>,
+    ): AsyncTransformChain<T>;
+    bufferTime(options: BufferTimeOptions<T>): AsyncTransformChain<T[]>;
+    dedupe(): AsyncTransformChain<T>;
+    distinct(): AsyncTransformChain<T>;
+    distinctBy<K>(
+        getKey: (item: T) => K,
+        equivalence?: Equivalence<K>,
+    ): AsyncTransformChain<T>;
+    drop(n: number): AsyncTransformChain<T>;
+    dropWhile(pred: (item: T) => boolean): AsyncTransformChain<T>;
+    filter<U extends T>(pred: (item: T) => item is U): AsyncTransformChain<U>;
+    filter(pred: (item: T) => boolean): AsyncTransformChain<T>;
+    filterAsync(
+        pred: (item: T) => boolean | PromiseLike<boolean>,
+        options?: MapAsyncOptions,
+    ): AsyncTransformChain<T>;
+    flatMap<U>(f: (item: T) => Iterable<U>): AsyncTransformChain<U>;
+    flatten: T extends Iterable<infer U> ? () => AsyncTransformChain<U> : void;
+    interpose(separator: T): AsyncTransformChain<T>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options?: JoinOptions & { kind?: "inner" },
+    ): AsyncTransformChain<[T, U]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions & { kind: "left" },
+    ): AsyncTransformChain<[T, U | null]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions,
+    ): AsyncTransformChain<[T | null, U | null]>;
+    map<U>(f: (item: T) => U): AsyncTransformChain<U>;
+    mapAsync<U>(
+        f: (item: T) => U | PromiseLike<U>,
+        options?: MapAsyncOptions,
+    ): AsyncTransformChain<U>;
+    mapIndexed<U>(f: (item: T, index: number) => U): AsyncTransformChain<U>;
+    mapTry<U>(f: (item: T) => U): AsyncTransformChain<TryResult<T, U>>;
+    partitionAll(n: number): AsyncTransformChain<T[]>;
+    partitionBy(pred: (item: T) => any): AsyncTransformChain<T[]>;
+    partitionSliding(
+        size: number,
+        step?: number,
+        options?: PartitionSlidingOptions,
+    ): AsyncTransformChain<T[]>;
+    remove<U extends T>(
+        pred: (item: T) => item is U,
+    ): AsyncTransformChain<Exclude<T, U>>;
+    remove(pred: (item: T) => boolean): AsyncTransformChain<T>;
+    removeAbsent(): AsyncTransformChain<NonNullable<T>>;
+    scan<U>(
+        reducer: QuittingReducer<U, T>,
+        initialValue: U,
+    ): AsyncTransformChain<U>;
+    scan<U>(
+        transformer: CompletingTransformer<any, U, T>,
+    ): AsyncTransformChain<U>;
+    sort(comparator?: Comparator<T>): AsyncTransformChain<T>;
+    sortBy(...getKeys: Array<(item: T) => any>): AsyncTransformChain<T>;
+    take(n: number): AsyncTransformChain<T>;
+    takeNth(n: number): AsyncTransformChain<T>;
+    takeWhile<U extends T>(
+        pred: (item: T) => item is U,
+    ): AsyncTransformChain<U>;
+    takeWhile(pred: (item: T) => boolean): AsyncTransformChain<T>;
+    zip<U>(other: Iterable<U>): AsyncTransformChain<[T, U]>;
+
+    reduce<TResult>(
+        reducer: QuittingReducer<TResult, T>,
+        initialValue: TResult,
+    ): Promise<TResult>;
+    reduce<TResult, TCompleteResult>(
+        transformer: CompletingTransformer<TResult, TCompleteResult, T>,
+    ): Promise<TCompleteResult>;
+
+    approximateQuantile: T extends number
+        ? (q: number) => Promise<number | null>
+        : void;
+    average: T extends number ? () => Promise<number | null> : void;
+    bottomK: T extends number
+        ? (k: number, comparator?: Comparator<number>) => Promise<number[]>
+        : (k: number, comparator: Comparator<T>) => Promise<T[]>;
+    branch<B extends Record<string, (chain: TransformChain<T>) => any>>(
+        branches: B,
+    ): Promise<BranchResults<B>>;
+    collectErrors: [T] extends [TryResult<infer I, infer O>]
+        ? {
+              (): Promise<WithErrors<O[], I>>;
+              <R>(transformer: CompletingTransformer<any, R, O>): Promise<
+                  WithErrors<R, I>
+              >;
+          }
+        : void;
+    count(): Promise<number>;
+    countBy<K>(getKey: (item: T) => K): Promise<Map<K, number>>;
+    every(pred: (item: T) => boolean): Promise<boolean>;
+    find<U extends T>(pred: (item: T) => item is U): Promise<U | null>;
+    find(pred: (item: T) => boolean): Promise<T | null>;
+    first(): Promise<T | null>;
+    forEach(f: (item: T) => void): Promise<void>;
+    frequencies(): Promise<Map<T, number>>;
+    histogram: T extends number
+        ? (options: HistogramOptions) => Promise<HistogramBucket[]>
+        : void;
+    isEmpty(): Promise<boolean>;
+    joinToString(separator: string): Promise<string>;
+    max: T extends number
+        ? (comparator?: Comparator<number>) => Promise<number | null>
+        : (comparator: Comparator<T>) => Promise<T | null>;
+    maxBy(getKey: (item: T) => any): Promise<T | null>;
+    median: T extends number ? () => Promise<number | null> : void;
+    min: T extends number
+        ? (comparator?: Comparator<number>) => Promise<number | null>
+        : (comparator: Comparator<T>) => Promise<T | null>;
+    minBy(getKey: (item: T) => any): Promise<T | null>;
+    partition<U extends T>(
+        pred: (item: T) => item is U,
+    ): Promise<[U[], Array<Exclude<T, U>>]>;
+    partition(pred: (item: T) => boolean): Promise<[T[], T[]]>;
+    partition<U extends T, A, B>(
+        pred: (item: T) => item is U,
+        matching: CompletingTransformer<any, A, U>,
+        nonMatching: CompletingTransformer<any, B, Exclude<T, U>>,
+    ): Promise<[A, B]>;
+    partition<A, B>(
+        pred: (item: T) => boolean,
+        matching: CompletingTransformer<any, A, T>,
+        nonMatching: CompletingTransformer<any, B, T>,
+    ): Promise<[A, B]>;
+    quantile: T extends number ? (q: number) => Promise<number | null> : void;
+    some(pred: (item: T) => boolean): Promise<boolean>;
+    stddev: T extends number
+        ? (options?: VarianceOptions) => Promise<number | null>
+        : void;
+    sum: T extends number ? () => Promise<number> : void;
+    toArray(): Promise<T[]>;
+    toMap<K, V>(
+        getKey: (item: T) => K,
+        getValue: (item: T) => V,
+    ): Promise<Map<K, V>>;
+    toMapGroupBy<K>(getKey: (item: T) => K): Promise<Map<K, T[]>>;
+    toMapGroupBy<K, V>(
+        getKey: (item: T) => K,
+        transformer: CompletingTransformer<any, V, T>,
+    ): Promise<Map<K, V>>;
+    toObject<K extends keyof any, V>(
+        getKey: (item: T) => K,
+        getValue: (item: T) => V,
+    ): Promise<Record<K, V>>;
+    toObjectCountBy<K extends keyof any>(
+        getKey: (item: T) => K,
+    ): Promise<Record<K, number>>;
+    toObjectGroupBy<K extends keyof any>(
+        getKey: (item: T) => K,
+    ): Promise<Record<K, T[]>>;
+    toObjectGroupBy<K extends keyof any, V>(
+        getKey: (item: T) => K,
+        transformer: CompletingTransformer<any, V, T>,
+    ): Promise<Record<K, V>>;
+    topK: T extends number
+        ? (k: number, comparator?: Comparator<number>) => Promise<number[]>
+        : (k: number, comparator: Comparator<T>) => Promise<T[]>;
+    toSet(): Promise<Set<T>>;
+    variance: T extends number
+        ? (options?: VarianceOptions) => Promise<number | null>
+        : void;
+
+    toIterator(): AsyncIterableIterator<T>;
+    // tslint:enable: member-ordering
+}
+
 export interface TransducerBuilder<TBase, T> {
     // tslint:disable: member-ordering
     compose<U>(transducer: Transducer<T, U>): TransducerBuilder<TBase, U>;
 
+    catchError(
+        handler: (error: any, input: T) => Iterable<T>,
+    ): TransducerBuilder<TBase, T>;
     dedupe(): TransducerBuilder<TBase, T>;
+    distinct(): TransducerBuilder<TBase, T>;
+    distinctBy<K>(
+        getKey: (item: T) => K,
+        equivalence?: Equivalence<K>,
+    ): TransducerBuilder<TBase, T>;
     drop(n: number): TransducerBuilder<TBase, T>;
     dropWhile(pred: (item: T) => boolean): TransducerBuilder<TBase, T>;
     filter<U extends T>(
@@ -135,23 +466,57 @@ export interface TransducerBuilder<TBase, T> {
         ? () => TransducerBuilder<TBase, U>
         : void;
     interpose(separator: T): TransducerBuilder<TBase, T>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options?: JoinOptions & { kind?: "inner" },
+    ): TransducerBuilder<TBase, [T, U]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions & { kind: "left" },
+    ): TransducerBuilder<TBase, [T, U | null]>;
+    joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions,
+    ): TransducerBuilder<TBase, [T | null, U | null]>;
     map<U>(f: (item: T) => U): TransducerBuilder<TBase, U>;
     mapIndexed<U>(
         f: (item: T, index: number) => U,
     ): TransducerBuilder<TBase, U>;
+    mapTry<U>(f: (item: T) => U): TransducerBuilder<TBase, TryResult<T, U>>;
     partitionAll(n: number): TransducerBuilder<TBase, T[]>;
     partitionBy(pred: (item: T) => boolean): TransducerBuilder<TBase, T[]>;
+    partitionSliding(
+        size: number,
+        step?: number,
+        options?: PartitionSlidingOptions,
+    ): TransducerBuilder<TBase, T[]>;
     remove<U extends T>(
         pred: (item: T) => item is U,
     ): TransducerBuilder<TBase, Exclude<T, U>>;
     remove(pred: (item: T) => boolean): TransducerBuilder<TBase, T>;
     removeAbsent(): TransducerBuilder<TBase, NonNullable<T>>;
+    scan<U>(
+        reducer: QuittingReducer<U, T>,
+        initialValue: U,
+    ): TransducerBuilder<TBase, U>;
+    scan<U>(
+        transformer: CompletingTransformer<any, U, T>,
+    ): TransducerBuilder<TBase, U>;
+    sort(comparator?: Comparator<T>): TransducerBuilder<TBase, T>;
+    sortBy(...getKeys: Array<(item: T) => any>): TransducerBuilder<TBase, T>;
     take(n: number): TransducerBuilder<TBase, T>;
     takeNth(n: number): TransducerBuilder<TBase, T>;
     takeWhile<U extends T>(
         pred: (item: T) => item is U,
     ): TransducerBuilder<TBase, U>;
     takeWhile(pred: (item: T) => boolean): TransducerBuilder<TBase, T>;
+    zip<U>(other: Iterable<U>): TransducerBuilder<TBase, [T, U]>;
 
     build(): Transducer<TBase, T>;
     // tslint:disable: member-ordering
@@ -161,6 +526,19 @@ export function chainFrom<T>(collection: Iterable<T>): TransformChain<T> {
     return new TransducerChain(collection) as any;
 }
 
+/**
+ * Like chainFrom(), but for async iterables such as Node streams or async
+ * generators. Ordinary iterables are also accepted. Every method which ends the
+ * chain returns a Promise.
+ */
+export function chainFromAsync<T>(
+    collection: AsyncIterable<T> | Iterable<T>,
+): AsyncTransformChain<T> {
+    // The chain only passes its collection through to transduceAsync(), hence
+    // the cast.
+    return new AsyncTransducerChain(collection as Iterable<T>) as any;
+}
+
 export function transducerBuilder<T>(): TransducerBuilder<T, T> {
     return new TransducerChain<T, T>([]) as any;
 }
@@ -169,9 +547,9 @@ type CombinedBuilder<TBase, T> = TransformChain<T> &
     TransducerBuilder<TBase, T>;
 
 class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
-    private readonly transducers: Array<Transducer<any, any>> = [];
+    protected transducers: Array<Transducer<any, any>> = [];
 
-    constructor(private readonly collection: Iterable<TBase>) {}
+    constructor(protected collection: Iterable<TBase>) {}
 
     public compose<U>(transducer: Transducer<T, U>): CombinedBuilder<TBase, U> {
         this.transducers.push(transducer);
@@ -179,10 +557,11 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
     }
 
     public build(): Transducer<TBase, T> {
+        const transducers = this.transducers.slice();
         return (x: any) => {
             let result = x;
-            for (let i = this.transducers.length - 1; i >= 0; i--) {
-                result = this.transducers[i](result);
+            for (let i = transducers.length - 1; i >= 0; i--) {
+                result = transducers[i](result);
             }
             return result;
         };
@@ -190,10 +569,27 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
 
     // ----- Composing transducers -----
 
+    public catchError(
+        handler: (error: any, input: T) => Iterable<T>,
+    ): CombinedBuilder<TBase, T> {
+        return this.compose(catchError(handler));
+    }
+
     public dedupe(): CombinedBuilder<TBase, T> {
         return this.compose(dedupe());
     }
 
+    public distinct(): CombinedBuilder<TBase, T> {
+        return this.compose(distinct());
+    }
+
+    public distinctBy<K>(
+        getKey: (item: T) => K,
+        equivalence?: Equivalence<K>,
+    ): CombinedBuilder<TBase, T> {
+        return this.compose(distinctBy(getKey, equivalence));
+    }
+
     public drop(n: number): CombinedBuilder<TBase, T> {
         return this.compose(drop(n));
     }
@@ -219,6 +615,33 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.compose(interpose(separator));
     }
 
+    public joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options?: JoinOptions & { kind?: "inner" },
+    ): CombinedBuilder<TBase, [T, U]>;
+    public joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions & { kind: "left" },
+    ): CombinedBuilder<TBase, [T, U | null]>;
+    public joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options: JoinOptions,
+    ): CombinedBuilder<TBase, [T | null, U | null]>;
+    public joinOn<U, K>(
+        other: Iterable<U>,
+        leftKey: (item: T) => K,
+        rightKey: (item: U) => K,
+        options?: JoinOptions,
+    ): CombinedBuilder<TBase, [T | null, U | null]> {
+        return this.compose(joinOn(other, leftKey, rightKey, options!));
+    }
+
     public map<U>(f: (item: T) => U): CombinedBuilder<TBase, U> {
         return this.compose(map(f));
     }
@@ -229,6 +652,12 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.compose(mapIndexed(f));
     }
 
+    public mapTry<U>(
+        f: (item: T) => U,
+    ): CombinedBuilder<TBase, TryResult<T, U>> {
+        return this.compose(mapTry(f));
+    }
+
     public partitionAll(n: number): CombinedBuilder<TBase, T[]> {
         return this.compose(partitionAll(n));
     }
@@ -237,6 +666,14 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.compose(partitionBy(f));
     }
 
+    public partitionSliding(
+        size: number,
+        step?: number,
+        options?: PartitionSlidingOptions,
+    ): CombinedBuilder<TBase, T[]> {
+        return this.compose(partitionSliding(size, step, options));
+    }
+
     public remove<U extends T>(
         pred: (item: T) => item is U,
     ): CombinedBuilder<TBase, Exclude<T, U>>;
@@ -252,6 +689,30 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         >;
     }
 
+    public scan<U>(
+        reducer: QuittingReducer<U, T>,
+        initialValue: U,
+    ): CombinedBuilder<TBase, U>;
+    public scan<U>(
+        transformer: CompletingTransformer<any, U, T>,
+    ): CombinedBuilder<TBase, U>;
+    public scan<U>(
+        reducer: QuittingReducer<U, T> | CompletingTransformer<any, U, T>,
+        initialValue?: U,
+    ): CombinedBuilder<TBase, U> {
+        return this.compose(scan(reducer as any, initialValue!));
+    }
+
+    public sort(comparator?: Comparator<T>): CombinedBuilder<TBase, T> {
+        return this.compose(sort(comparator));
+    }
+
+    public sortBy(
+        ...getKeys: Array<(item: T) => any>
+    ): CombinedBuilder<TBase, T> {
+        return this.compose(sortBy(...getKeys));
+    }
+
     public take(n: number): CombinedBuilder<TBase, T> {
         return this.compose(take(n));
     }
@@ -264,6 +725,10 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.compose(takeWhile(pred));
     }
 
+    public zip<U>(other: Iterable<U>): CombinedBuilder<TBase, [T, U]> {
+        return this.compose(pairWith(other));
+    }
+
     // ----- Reductions -----
 
     public reduce<TResult>(
@@ -293,15 +758,55 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         }
     }
 
+    // @ts-ignore
+    public approximateQuantile(q: number): number | null {
+        return this.reduce(approximateQuantile(q) as any);
+    }
+
     // @ts-ignore
     public average(): number | null {
         return this.reduce(toAverage() as any);
     }
 
+    // @ts-ignore
+    public bottomK(k: number, comparator: Comparator<T>): T[] {
+        return this.reduce(bottomK(k, comparator));
+    }
+
+    public branch(
+        branches: Record<string, (chain: TransformChain<T>) => any>,
+    ): any {
+        const transformers: Record<
+            string,
+            CompletingTransformer<any, any, T>
+        > = {};
+        Object.keys(branches).forEach(key => {
+            const end = branches[key](new BranchTransducerChain<T>() as any);
+            if (!(end instanceof BranchEnd)) {
+                throw new Error(
+                    `Branch "${key}" must end with a method such as toArray()`,
+                );
+            }
+            transformers[key] = end.transformer;
+        });
+        return this.reduce(combine(transformers));
+    }
+
+    // @ts-ignore
+    public collectErrors(
+        transformer?: CompletingTransformer<any, any, any>,
+    ): WithErrors<any, any> {
+        return this.reduce(collectErrors(transformer!) as any);
+    }
+
     public count(): number {
         return this.reduce(count());
     }
 
+    public countBy<K>(getKey: (item: T) => K): Map<K, number> {
+        return this.reduce(countBy(getKey));
+    }
+
     public every(pred: (item: T) => boolean): boolean {
         return this.reduce(every(pred));
     }
@@ -315,7 +820,16 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
     }
 
     public forEach(f: (item: T) => void): void {
-        this.reduce(forEach(f));
+        return this.reduce(forEach(f));
+    }
+
+    public frequencies(): Map<T, number> {
+        return this.reduce(frequencies());
+    }
+
+    // @ts-ignore
+    public histogram(options: HistogramOptions): HistogramBucket[] {
+        return this.reduce(histogram(options) as any);
     }
 
     public isEmpty(): boolean {
@@ -331,15 +845,46 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.reduce(max(comparator));
     }
 
+    public maxBy(getKey: (item: T) => any): T | null {
+        return this.reduce(maxBy(getKey));
+    }
+
+    // @ts-ignore
+    public median(): number | null {
+        return this.reduce(median() as any);
+    }
+
     // @ts-ignore
     public min(comparator: Comparator<T>): T | null {
         return this.reduce(min(comparator));
     }
 
+    public minBy(getKey: (item: T) => any): T | null {
+        return this.reduce(minBy(getKey));
+    }
+
+    public partition(
+        pred: (item: T) => boolean,
+        matching?: CompletingTransformer<any, any, T>,
+        nonMatching?: CompletingTransformer<any, any, T>,
+    ): [any, any] {
+        return this.reduce(partition(pred, matching!, nonMatching!));
+    }
+
+    // @ts-ignore
+    public quantile(q: number): number | null {
+        return this.reduce(quantile(q) as any);
+    }
+
     public some(pred: (item: T) => boolean): boolean {
         return this.reduce(some(pred));
     }
 
+    // @ts-ignore
+    public stddev(options?: VarianceOptions): number | null {
+        return this.reduce(stddev(options) as any);
+    }
+
     // @ts-ignore
     public sum(): number {
         return this.reduce(sum() as any);
@@ -375,6 +920,12 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.reduce(toObject(getKey, getValue));
     }
 
+    public toObjectCountBy<K extends keyof any>(
+        getKey: (item: T) => K,
+    ): Record<K, number> {
+        return this.reduce(toObjectCountBy(getKey));
+    }
+
     public toObjectGroupBy<K extends keyof any>(
         getKey: (item: T) => K,
     ): Record<K, T[]>;
@@ -389,11 +940,134 @@ class TransducerChain<TBase, T> implements CombinedBuilder<TBase, T> {
         return this.reduce(toObjectGroupBy(getKey, transformer as any));
     }
 
+    // @ts-ignore
+    public topK(k: number, comparator: Comparator<T>): T[] {
+        return this.reduce(topK(k, comparator));
+    }
+
     public toSet(): Set<T> {
         return this.reduce(toSet());
     }
 
+    // @ts-ignore
+    public variance(options?: VarianceOptions): number | null {
+        return this.reduce(variance(options) as any);
+    }
+
     public toIterator(): IterableIterator<T> {
         return lazyTransduce(this.collection, this.build());
     }
 }
+
+const FILTERED_OUT = {};
+
+/**
+ * Shares all transformation methods with the synchronous chain. Since every
+ * method which ends a chain is implemented in terms of reduce(), overriding
+ * reduce() is enough to make all of them return Promises.
+ */
+class AsyncTransducerChain<TBase, T> extends TransducerChain<TBase, T> {
+    public bufferTime(
+        options: BufferTimeOptions<T>,
+    ): AsyncTransducerChain<TBase, T[]> {
+        validateBufferTimeOptions(options);
+        return this.pipe(source => bufferTime(source, options));
+    }
+
+    public filterAsync(
+        pred: (item: T) => boolean | PromiseLike<boolean>,
+        options?: MapAsyncOptions,
+    ): AsyncTransducerChain<TBase, T> {
+        return this.mapAsync(
+            item =>
+                Promise.resolve(pred(item)).then(isKept =>
+                    isKept ? item : FILTERED_OUT,
+                ),
+            options,
+        ).filter(item => item !== FILTERED_OUT) as any;
+    }
+
+    public mapAsync<U>(
+        f: (item: T) => U | PromiseLike<U>,
+        options?: MapAsyncOptions,
+    ): AsyncTransducerChain<TBase, U> {
+        validateMapAsyncOptions(options || {});
+        // The promises are created by map() as the transformed collection is
+        // read, so they start no sooner than the elements are requested.
+        const withPromises: AsyncTransducerChain<
+            TBase,
+            U | PromiseLike<U>
+        > = this.compose(map(f)) as any;
+        return withPromises.pipe(source => awaitConcurrently(source, options));
+    }
+
+    public reduce(reducer: any, initialValue?: any): any {
+        if (typeof reducer === "function") {
+            return transduceAsync(
+                this.collection,
+                this.build(),
+                reducer,
+                initialValue,
+            );
+        } else {
+            return transduceAsync(this.collection, this.build(), reducer);
+        }
+    }
+
+    public toIterator(): any {
+        return lazyTransduceAsync(this.collection, this.build());
+    }
+
+    /**
+     * Ends the current run of transducers by applying an operation on async
+     * iterables to their lazily computed output. Later transducers apply to
+     * the output of the operation. Nothing is opened until the chain is read,
+     * and each read starts over from the source.
+     */
+    private pipe<U>(
+        operation: (source: AsyncIterable<T>) => AsyncIterable<U>,
+    ): AsyncTransducerChain<TBase, U> {
+        const { collection } = this;
+        const transducer = this.build();
+        this.collection = {
+            [ASYNC_ITERATOR_SYMBOL]: () =>
+                getAsyncIterator(
+                    operation(lazyTransduceAsync(collection, transducer)),
+                ),
+        } as any;
+        this.transducers = [];
+        return this as any;
+    }
+}
+
+/**
+ * Stands in for a value in the object returned by a callback of branch(),
+ * holding the transformer which the branch should be reduced with.
+ */
+class BranchEnd<T> {
+    constructor(
+        public readonly transformer: CompletingTransformer<any, any, T>,
+    ) {}
+}
+
+/**
+ * The chain given to each callback of branch(). It has no collection of its
+ * own, so ending it returns a BranchEnd rather than reducing anything.
+ */
+class BranchTransducerChain<T> extends TransducerChain<T, T> {
+    constructor() {
+        super([]);
+    }
+
+    public reduce(reducer: any, initialValue?: any): any {
+        const transformer =
+            typeof reducer === "function"
+                ? new ReducerWrappingTransformer(reducer, initialValue)
+                : reducer;
+        return new BranchEnd(this.build()(transformer));
+    }
+
+    public toIterator(): any {
+        throw new Error("toIterator() cannot be used to end a branch");
+    }
+}
@@ -0,0 +1,79 @@
+import { Comparator } from "./types";
+
+/**
+ * Orders values using < and >, which works for numbers and strings.
+ */
+export const NATURAL_COMPARATOR: Comparator<any> = (a: any, b: any) => {
+    if (a < b) {
+        return -1;
+    } else {
+        return a > b ? 1 : 0;
+    }
+};
+
+export function invertComparator<T>(comparator: Comparator<T>): Comparator<T> {
+    return (a, b) => -comparator(a, b);
+}
+
+/**
+ * Orders values from least to greatest, or by the keys returned by getKey if it
+ * is provided.
+ */
+export function ascending<T>(getKey?: (item: T) => any): Comparator<T> {
+    return getKey
+        ? (a, b) => NATURAL_COMPARATOR(getKey(a), getKey(b))
+        : NATURAL_COMPARATOR;
+}
+
+/**
+ * Orders values from greatest to least, or by the keys returned by getKey if it
+ * is provided.
+ */
+export function descending<T>(getKey?: (item: T) => any): Comparator<T> {
+    return invertComparator(ascending(getKey));
+}
+
+/**
+ * Orders values by the first comparator, falling back on each of the others in
+ * turn to break ties.
+ */
+export function thenBy<T>(
+    comparator: Comparator<T>,
+    ...tieBreakers: Array<Comparator<T>>
+): Comparator<T> {
+    return (a, b) => {
+        let result = comparator(a, b);
+        for (let i = 0; result === 0 && i < tieBreakers.length; i++) {
+            result = tieBreakers[i](a, b);
+        }
+        return result;
+    };
+}
+
+/**
+ * Puts null and undefined before all other values, which are ordered by the
+ * comparator.
+ */
+export function nullsFirst<T>(
+    comparator: Comparator<NonNullable<T>> = NATURAL_COMPARATOR,
+): Comparator<T> {
+    return (a, b) => {
+        if (a == null) {
+            return b == null ? 0 : -1;
+        } else if (b == null) {
+            return 1;
+        } else {
+            return comparator(a as NonNullable<T>, b as NonNullable<T>);
+        }
+    };
+}
+
+/**
+ * Puts null and undefined after all other values, which are ordered by the
+ * comparator.
+ */
+export function nullsLast<T>(
+    comparator: Comparator<NonNullable<T>> = NATURAL_COMPARATOR,
+): Comparator<T> {
+    return invertComparator(nullsFirst(invertComparator(comparator)));
+}
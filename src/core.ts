@@ -1,4 +1,13 @@
-import { getIterator } from "./iterables";
+import {
+    closeAsyncIterator,
+    closeAsyncIteratorAfterError,
+    getAsyncIterator,
+} from "./asyncIterables";
+import {
+    closeIterator,
+    closeIteratorAfterError,
+    getIterator,
+} from "./iterables";
 import { INIT, RESULT, STEP } from "./propertyNames";
 import {
     CompletingTransformer,
@@ -42,7 +51,7 @@ export function transduce<TResult, TCompleteResult, TInput, TOutput>(
     return reduceWithTransformer(collection, transform(transformer));
 }
 
-function reduceWithTransformer<TResult, TCompleteResult, TInput>(
+export function reduceWithTransformer<TResult, TCompleteResult, TInput>(
     collection: Iterable<TInput>,
     f: CompletingTransformer<TResult, TCompleteResult, TInput>,
 ): TCompleteResult {
@@ -54,6 +63,11 @@ function reduceWithTransformer<TResult, TCompleteResult, TInput>(
     return f[RESULT](unreduced(uncompleteResult));
 }
 
+/**
+ * If the reduction stops before the iterator is done, either because the
+ * reducer returns a reduced value or because it throws, then the iterator is
+ * closed by calling its return().
+ */
 export function reduceWithFunction<TResult, TInput>(
     collection: Iterable<TInput>,
     f: QuittingReducer<TResult, TInput>,
@@ -66,8 +80,207 @@ export function reduceWithFunction<TResult, TInput>(
         if (input.done) {
             return result;
         }
-        const next = f(result, input.value);
+        let next: MaybeReduced<TResult>;
+        try {
+            next = f(result, input.value);
+        } catch (error) {
+            closeIteratorAfterError(iterator);
+            throw error;
+        }
+        if (isReduced(next)) {
+            closeIterator(iterator);
+            return next;
+        } else {
+            result = next;
+        }
+    }
+}
+
+/**
+ * A destination which values are pushed into one at a time, for sources such as
+ * event emitters or callbacks which cannot be iterated.
+ */
+export interface PushSink<TInput, TResult, TCompleteResult> {
+    /**
+     * The transformer's result so far. For transformers such as toArray(), this
+     * is the result built from the values pushed until now, but some
+     * transformers, such as average(), only produce their final result when
+     * completed.
+     */
+    readonly result: TResult;
+    /**
+     * True once the transformation has finished early, for example because of
+     * a take(), or once complete() has been called. Later values are ignored.
+     */
+    readonly done: boolean;
+    /**
+     * Pushes a value through the transformation. Returns true if the sink will
+     * accept more values.
+     */
+    next(input: TInput): boolean;
+    /**
+     * Runs the completion step of the transformation and returns the final
+     * result. Calling this again returns the same result.
+     */
+    complete(): TCompleteResult;
+}
+
+export function into<TResult, TCompleteResult, TInput, TOutput>(
+    transform: Transducer<TInput, TOutput>,
+    reducer: CompletingTransformer<TResult, TCompleteResult, TOutput>,
+): PushSink<TInput, TResult, TCompleteResult>;
+export function into<TResult, TInput, TOutput>(
+    transform: Transducer<TInput, TOutput>,
+    reducer: QuittingReducer<TResult, TOutput>,
+    initialValue: TResult,
+): PushSink<TInput, TResult, TResult>;
+export function into<TResult, TCompleteResult, TInput, TOutput>(
+    transform: Transducer<TInput, TOutput>,
+    reducer:
+        | CompletingTransformer<TResult, TCompleteResult, TOutput>
+        | QuittingReducer<TResult, TOutput>,
+    initialValue?: TResult,
+): PushSink<TInput, TResult, TCompleteResult> {
+    let transformer: CompletingTransformer<TResult, TCompleteResult, TOutput>;
+    if (typeof reducer === "function") {
+        // Same coercion as in transduce().
+        transformer = new ReducerWrappingTransformer(
+            reducer,
+            initialValue!,
+        ) as any;
+    } else {
+        transformer = reducer;
+    }
+    return new TransducerPushSink(transform, transformer);
+}
+
+/**
+ * The transducer may wrap the result in state of its own, so the transformer
+ * at the end of the chain is wrapped to record its own result after each step.
+ */
+class TransducerPushSink<TResult, TCompleteResult, TInput, TOutput>
+    implements PushSink<TInput, TResult, TCompleteResult> {
+    public result!: TResult;
+    public done = false;
+    private readonly xf: CompletingTransformer<any, TCompleteResult, TInput>;
+    private state: any;
+    private completeResult: TCompleteResult | undefined;
+    private isCompleted = false;
+
+    constructor(
+        transform: Transducer<TInput, TOutput>,
+        transformer: CompletingTransformer<TResult, TCompleteResult, TOutput>,
+    ) {
+        this.xf = transform({
+            [INIT]: () => (this.result = transformer[INIT]()),
+            [RESULT]: (result: TResult) => transformer[RESULT](result),
+            [STEP]: (result: TResult, input: TOutput) => {
+                const next = transformer[STEP](result, input);
+                this.result = unreduced(next);
+                return next;
+            },
+        });
+        this.state = this.xf[INIT]();
+    }
+
+    public next(input: TInput): boolean {
+        if (this.done) {
+            return false;
+        }
+        let next: any;
+        try {
+            next = this.xf[STEP](this.state, input);
+        } catch (error) {
+            this.done = true;
+            throw error;
+        }
+        if (isReduced(next)) {
+            this.state = unreduced(next);
+            this.done = true;
+        } else {
+            this.state = next;
+        }
+        return !this.done;
+    }
+
+    public complete(): TCompleteResult {
+        if (!this.isCompleted) {
+            this.done = true;
+            this.completeResult = this.xf[RESULT](this.state);
+            this.isCompleted = true;
+        }
+        return this.completeResult!;
+    }
+}
+
+export function transduceAsync<TResult, TCompleteResult, TInput, TOutput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    transform: Transducer<TInput, TOutput>,
+    reducer: CompletingTransformer<TResult, TCompleteResult, TOutput>,
+): Promise<TCompleteResult>;
+export function transduceAsync<TResult, TInput, TOutput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    transform: Transducer<TInput, TOutput>,
+    reducer: QuittingReducer<TResult, TOutput>,
+    initialValue: TResult,
+): Promise<TResult>;
+export function transduceAsync<TResult, TCompleteResult, TInput, TOutput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    transform: Transducer<TInput, TOutput>,
+    reducer:
+        | CompletingTransformer<TResult, TCompleteResult, TOutput>
+        | QuittingReducer<TResult, TOutput>,
+    initialValue?: TResult,
+): Promise<TCompleteResult> {
+    let transformer: CompletingTransformer<TResult, TCompleteResult, TOutput>;
+    if (typeof reducer === "function") {
+        // Same coercion as in transduce().
+        transformer = new ReducerWrappingTransformer(
+            reducer,
+            initialValue!,
+        ) as any;
+    } else {
+        transformer = reducer;
+    }
+    return reduceWithTransformerAsync(collection, transform(transformer));
+}
+
+async function reduceWithTransformerAsync<TResult, TCompleteResult, TInput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    f: CompletingTransformer<TResult, TCompleteResult, TInput>,
+): Promise<TCompleteResult> {
+    const uncompleteResult = await reduceWithFunctionAsync(
+        collection,
+        f[STEP].bind(f),
+        f[INIT](),
+    );
+    return f[RESULT](unreduced(uncompleteResult));
+}
+
+/**
+ * Like reduceWithFunction(), but pulls from an async iterator.
+ */
+export async function reduceWithFunctionAsync<TResult, TInput>(
+    collection: AsyncIterable<TInput> | Iterable<TInput>,
+    f: QuittingReducer<TResult, TInput>,
+    initialValue: TResult,
+): Promise<MaybeReduced<TResult>> {
+    const iterator = getAsyncIterator(collection);
+    let result = initialValue;
+    while (true) {
+        const input = await iterator.next();
+        if (input.done) {
+            return result;
+        }
+        let next: MaybeReduced<TResult>;
+        try {
+            next = f(result, input.value);
+        } catch (error) {
+            await closeAsyncIteratorAfterError(iterator);
+            throw error;
+        }
         if (isReduced(next)) {
+            await closeAsyncIterator(iterator);
             return next;
         } else {
             result = next;
@@ -75,7 +288,7 @@ export function reduceWithFunction<TResult, TInput>(
     }
 }
 
-class ReducerWrappingTransformer<TResult, TInput>
+export class ReducerWrappingTransformer<TResult, TInput>
     implements Transformer<TResult, TInput> {
     public readonly [STEP]: QuittingReducer<TResult, TInput>;
 
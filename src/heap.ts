@@ -0,0 +1,97 @@
+import { Comparator } from "./types";
+
+/**
+ * A binary heap whose smallest element, according to the comparator, is on top.
+ */
+export class BinaryHeap<T> {
+    private readonly items: T[] = [];
+
+    constructor(private readonly comparator: Comparator<T>) {}
+
+    public size(): number {
+        return this.items.length;
+    }
+
+    public peek(): T | undefined {
+        return this.items[0];
+    }
+
+    public push(item: T): void {
+        const { items, comparator } = this;
+        let i = items.length;
+        items.push(item);
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (comparator(items[parent], item) <= 0) {
+                break;
+            }
+            items[i] = items[parent];
+            i = parent;
+        }
+        items[i] = item;
+    }
+
+    public pop(): T | undefined {
+        const { items } = this;
+        if (items.length === 0) {
+            return undefined;
+        }
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            this.siftDown(last);
+        }
+        return top;
+    }
+
+    /**
+     * Removes and returns the top element while adding a new one, which is
+     * cheaper than a pop() followed by a push().
+     */
+    public replaceTop(item: T): T | undefined {
+        const top = this.items[0];
+        if (this.items.length === 0) {
+            this.items.push(item);
+        } else {
+            this.siftDown(item);
+        }
+        return top;
+    }
+
+    /**
+     * Returns a copy of the elements in no particular order.
+     */
+    public toArray(): T[] {
+        return this.items.slice();
+    }
+
+    /**
+     * Removes all elements, returning them in no particular order.
+     */
+    public drain(): T[] {
+        return this.items.splice(0);
+    }
+
+    private siftDown(item: T): void {
+        const { items, comparator } = this;
+        const n = items.length;
+        let i = 0;
+        while (true) {
+            const left = 2 * i + 1;
+            if (left >= n) {
+                break;
+            }
+            const right = left + 1;
+            const child =
+                right < n && comparator(items[right], items[left]) < 0
+                    ? right
+                    : left;
+            if (comparator(item, items[child]) <= 0) {
+                break;
+            }
+            items[i] = items[child];
+            i = child;
+        }
+        items[i] = item;
+    }
+}
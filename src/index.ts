@@ -1,12 +1,54 @@
 export {
+    AsyncTransformChain,
+    BranchResults,
     chainFrom,
+    chainFromAsync,
     TransducerBuilder,
     transducerBuilder,
     TransformChain,
 } from "./chain";
-export { transduce } from "./core";
-export { lazyTransduce, range, repeat, iterate, cycle } from "./iterables";
+export {
+    ascending,
+    descending,
+    nullsFirst,
+    nullsLast,
+    thenBy,
+} from "./comparators";
+export {
+    BufferTimeOptions,
+    lazyTransduceAsync,
+    MapAsyncOptions,
+    Scheduler,
+} from "./asyncIterables";
+export { into, PushSink, transduce, transduceAsync } from "./core";
+export {
+    lazyTransduce,
+    range,
+    repeat,
+    iterate,
+    cycle,
+    concat,
+    interleave,
+    mergeSorted,
+    zip,
+    zipLongest,
+    zipWith,
+} from "./iterables";
+export {
+    ObservableLike,
+    ObserverLike,
+    SubscriptionLike,
+    transduceObservable,
+} from "./observables";
 export * from "./reducers";
 export * from "./transducers";
 export * from "./types";
 export { compose, isReduced, reduced } from "./util";
+export {
+    fromReadableStream,
+    toTransformStream,
+    WebReadableStream,
+    WebReadableStreamReader,
+    WebTransformStream,
+    WebWritableStream,
+} from "./webStreams";
@@ -1,7 +1,12 @@
-import { STEP, VALUE } from "./propertyNames";
-import { toArray } from "./reducers";
-import { Transducer, Transformer } from "./types";
-import { isReduced } from "./util";
+import { BinaryHeap } from "./heap";
+import { INIT, RESULT, STEP } from "./propertyNames";
+import {
+    Comparator,
+    CompletingTransformer,
+    Transducer,
+    Transformer,
+} from "./types";
+import { isReduced, unreduced } from "./util";
 
 const ITERATOR_SYMBOL =
     typeof Symbol !== "undefined" ? Symbol.iterator : ("@@iterator" as any);
@@ -26,6 +31,29 @@ export function getIterator<T>(collection: Iterable<T>): Iterator<T> {
     }
 }
 
+/**
+ * Calls the iterator's return(), if it has one, so that it can release any
+ * resources it holds. Should be called when an iterator is abandoned before
+ * it is done.
+ */
+export function closeIterator(iterator: Iterator<any>): void {
+    if (iterator.return) {
+        iterator.return();
+    }
+}
+
+/**
+ * Like closeIterator(), but for use while another error is propagating. That
+ * error takes precedence over any error thrown by return().
+ */
+export function closeIteratorAfterError(iterator: Iterator<any>): void {
+    try {
+        closeIterator(iterator);
+    } catch (_) {
+        // Ignored in favor of the original error.
+    }
+}
+
 /**
  * Iterator for arrays in environments without Iterable.
  */
@@ -197,26 +225,467 @@ class CycleIterator<T> implements Iterator<T> {
             return { done: false, value };
         }
     }
+
+    public return(value?: any): IteratorResult<T> {
+        if (!this.hasConsumedIterator) {
+            this.hasConsumedIterator = true;
+            closeIterator(this.valueIterator);
+        }
+        this.values.length = 0;
+        return { done: true, value };
+    }
 }
 
 export function cycle<T>(values: Iterable<T>): Iterable<T> {
     return { [ITERATOR_SYMBOL]: () => new CycleIterator(values) as any } as any;
 }
 
+function getIterators<T>(iterables: Array<Iterable<T>>): Array<Iterator<T>> {
+    const iterators: Array<Iterator<T>> = [];
+    try {
+        for (const iterable of iterables) {
+            iterators.push(getIterator(iterable));
+        }
+    } catch (error) {
+        iterators.forEach(closeIteratorAfterError);
+        throw error;
+    }
+    return iterators;
+}
+
+/**
+ * The element types of a tuple of iterables.
+ */
+export type IterableElements<T extends Array<Iterable<any>>> = {
+    [K in keyof T]: T[K] extends Iterable<infer U> ? U : never;
+};
+
+/**
+ * The element types of a tuple of iterables, each of which might instead be a
+ * fill value.
+ */
+export type IterableElementsOr<T extends Array<Iterable<any>>, F> = {
+    [K in keyof T]: (T[K] extends Iterable<infer U> ? U : never) | F;
+};
+
+const NO_FILL = {};
+
+/**
+ * Reads one element from each iterator at a time. Stops when the first iterator
+ * is done if there is no fill value, or else when all of them are done.
+ */
+class ZipIterator<T> implements Iterator<T> {
+    private readonly iterators: Array<Iterator<any>>;
+    private readonly isDone: boolean[];
+    private isFinished = false;
+
+    constructor(
+        iterables: Array<Iterable<any>>,
+        private readonly f: ((...values: any[]) => T) | undefined,
+        private readonly fill: any,
+    ) {
+        this.iterators = getIterators(iterables);
+        this.isDone = this.iterators.map(() => false);
+    }
+
+    public [ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): IteratorResult<T> {
+        const { iterators, isDone, fill } = this;
+        if (this.isFinished) {
+            return { done: true } as any;
+        }
+        const values: any[] = [];
+        let doneCount = 0;
+        for (let i = 0; i < iterators.length; i++) {
+            if (!isDone[i]) {
+                let input: IteratorResult<any>;
+                try {
+                    input = iterators[i].next();
+                } catch (error) {
+                    isDone[i] = true;
+                    this.closeAfterError();
+                    throw error;
+                }
+                if (!input.done) {
+                    values.push(input.value);
+                    continue;
+                }
+                isDone[i] = true;
+                if (fill === NO_FILL) {
+                    return this.return();
+                }
+            }
+            values.push(fill);
+            doneCount++;
+        }
+        if (doneCount === iterators.length) {
+            this.isFinished = true;
+            return { done: true } as any;
+        }
+        if (!this.f) {
+            return { done: false, value: values as any };
+        }
+        try {
+            return { done: false, value: this.f.apply(undefined, values) };
+        } catch (error) {
+            this.closeAfterError();
+            throw error;
+        }
+    }
+
+    public return(value?: any): IteratorResult<T> {
+        if (!this.isFinished) {
+            this.isFinished = true;
+            this.iterators.forEach((iterator, i) => {
+                if (!this.isDone[i]) {
+                    closeIterator(iterator);
+                }
+            });
+        }
+        return { done: true, value };
+    }
+
+    private closeAfterError(): void {
+        try {
+            this.return();
+        } catch (_) {
+            // Ignored in favor of the original error.
+        }
+    }
+}
+
+export function zip<T extends Array<Iterable<any>>>(
+    ...iterables: T
+): Iterable<IterableElements<T>> {
+    return {
+        [ITERATOR_SYMBOL]: () => new ZipIterator(iterables, undefined, NO_FILL),
+    } as any;
+}
+
+export function zipWith<T extends Array<Iterable<any>>, U>(
+    f: (...values: IterableElements<T>) => U,
+    ...iterables: T
+): Iterable<U> {
+    return {
+        [ITERATOR_SYMBOL]: () => new ZipIterator(iterables, f as any, NO_FILL),
+    } as any;
+}
+
+export function zipLongest<T extends Array<Iterable<any>>, F>(
+    fill: F,
+    ...iterables: T
+): Iterable<IterableElementsOr<T, F>> {
+    return {
+        [ITERATOR_SYMBOL]: () => new ZipIterator(iterables, undefined, fill),
+    } as any;
+}
+
+class ConcatIterator<T> implements Iterator<T> {
+    private current: Iterator<T> | undefined;
+    private i = 0;
+    private isFinished = false;
+
+    constructor(private readonly iterables: Array<Iterable<T>>) {}
+
+    public [ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): IteratorResult<T> {
+        const { iterables } = this;
+        while (!this.isFinished) {
+            if (!this.current) {
+                if (this.i >= iterables.length) {
+                    this.isFinished = true;
+                    break;
+                }
+                this.current = getIterator(iterables[this.i++]);
+            }
+            let result: IteratorResult<T>;
+            try {
+                result = this.current.next();
+            } catch (error) {
+                this.current = undefined;
+                this.isFinished = true;
+                throw error;
+            }
+            if (!result.done) {
+                return result;
+            }
+            this.current = undefined;
+        }
+        return { done: true } as any;
+    }
+
+    public return(value?: any): IteratorResult<T> {
+        if (!this.isFinished) {
+            this.isFinished = true;
+            if (this.current) {
+                closeIterator(this.current);
+                this.current = undefined;
+            }
+        }
+        return { done: true, value };
+    }
+}
+
+export function concat<T>(...iterables: Array<Iterable<T>>): Iterable<T> {
+    return { [ITERATOR_SYMBOL]: () => new ConcatIterator(iterables) } as any;
+}
+
+class InterleaveIterator<T> implements Iterator<T> {
+    // Only iterators which are not yet done remain in this list.
+    private readonly iterators: Array<Iterator<T>>;
+    private i = 0;
+
+    constructor(iterables: Array<Iterable<T>>) {
+        this.iterators = getIterators(iterables);
+    }
+
+    public [ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): IteratorResult<T> {
+        const { iterators } = this;
+        while (iterators.length > 0) {
+            if (this.i >= iterators.length) {
+                this.i = 0;
+            }
+            let result: IteratorResult<T>;
+            try {
+                result = iterators[this.i].next();
+            } catch (error) {
+                iterators.splice(this.i, 1);
+                iterators.splice(0).forEach(closeIteratorAfterError);
+                throw error;
+            }
+            if (result.done) {
+                iterators.splice(this.i, 1);
+            } else {
+                this.i++;
+                return result;
+            }
+        }
+        return { done: true } as any;
+    }
+
+    public return(value?: any): IteratorResult<T> {
+        this.iterators.splice(0).forEach(closeIterator);
+        return { done: true, value };
+    }
+}
+
+export function interleave<T>(...iterables: Array<Iterable<T>>): Iterable<T> {
+    return {
+        [ITERATOR_SYMBOL]: () => new InterleaveIterator(iterables),
+    } as any;
+}
+
+interface MergeSortedEntry<T> {
+    value: T;
+    source: number;
+}
+
+/**
+ * Keeps the next element of each input in a heap. Only the input whose element
+ * was most recently emitted needs to be read from again, and that is put off
+ * until the following element is requested.
+ */
+class MergeSortedIterator<T> implements Iterator<T> {
+    // An entry is cleared once its iterator is done.
+    private readonly iterators: Array<Iterator<T> | undefined>;
+    private readonly heap: BinaryHeap<MergeSortedEntry<T>>;
+    private readonly toAdvance: number[] = [];
+
+    constructor(comparator: Comparator<T>, iterables: Array<Iterable<T>>) {
+        this.iterators = getIterators(iterables);
+        // Breaking ties by source keeps the merge stable.
+        this.heap = new BinaryHeap(
+            (a, b) => comparator(a.value, b.value) || a.source - b.source,
+        );
+        this.iterators.forEach((_, i) => this.toAdvance.push(i));
+    }
+
+    public [ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): IteratorResult<T> {
+        const { iterators, heap, toAdvance } = this;
+        try {
+            while (toAdvance.length > 0) {
+                const source = toAdvance.shift()!;
+                const iterator = iterators[source]!;
+                iterators[source] = undefined;
+                const result = iterator.next();
+                if (!result.done) {
+                    iterators[source] = iterator;
+                    heap.push({ value: result.value, source });
+                }
+            }
+        } catch (error) {
+            this.close(closeIteratorAfterError);
+            throw error;
+        }
+        const entry = heap.pop();
+        if (!entry) {
+            return { done: true } as any;
+        }
+        toAdvance.push(entry.source);
+        return { done: false, value: entry.value };
+    }
+
+    public return(value?: any): IteratorResult<T> {
+        this.close(closeIterator);
+        return { done: true, value };
+    }
+
+    private close(closeFn: (iterator: Iterator<T>) => void): void {
+        const { iterators } = this;
+        this.toAdvance.length = 0;
+        this.heap.drain();
+        iterators.forEach((iterator, i) => {
+            if (iterator) {
+                iterators[i] = undefined;
+                closeFn(iterator);
+            }
+        });
+    }
+}
+
+export function mergeSorted<T>(
+    comparator: Comparator<T>,
+    ...iterables: Array<Iterable<T>>
+): Iterable<T> {
+    return {
+        [ITERATOR_SYMBOL]: () => new MergeSortedIterator(comparator, iterables),
+    } as any;
+}
+
+/**
+ * A transformer which pushes its inputs onto the provided buffer, for use by
+ * lazy iterators which need to read the outputs of each step as they are
+ * produced.
+ */
+function toBuffer<T>(buffer: T[]): Transformer<undefined, T> {
+    return {
+        [INIT]: () => undefined,
+        [RESULT]: () => undefined,
+        [STEP]: (_: undefined, input: T) => {
+            buffer.push(input);
+            return undefined;
+        },
+    };
+}
+
+/**
+ * Runs a transducer one input at a time for the lazy iterators and the stream
+ * and observable adapters, which receive their inputs from outside. Outputs are
+ * buffered until they are taken. The completion step may add outputs, such as
+ * the final chunk of partitionAll(), so they should be taken again after
+ * complete().
+ *
+ * Once done, whether by completing, by a step throwing, or by end(), further
+ * inputs must not be stepped. If a step or the completion step throws, any
+ * outputs not yet taken are discarded.
+ */
+export class TransducerStepper<TInput, TOutput> {
+    public isDone = false;
+    private readonly xf: CompletingTransformer<any, any, TInput>;
+    private readonly buffer: TOutput[] = [];
+    private result: any;
+    private i = 0;
+
+    constructor(transform: Transducer<TInput, TOutput>) {
+        this.xf = transform(toBuffer(this.buffer));
+        this.result = this.xf[INIT]();
+    }
+
+    /**
+     * Returns true if the transducer has finished early, in which case the
+     * caller should release its source and then call complete().
+     */
+    public step(input: TInput): boolean {
+        let next: any;
+        try {
+            next = this.xf[STEP](this.result, input);
+        } catch (error) {
+            this.end();
+            throw error;
+        }
+        if (isReduced(next)) {
+            this.result = unreduced(next);
+            return true;
+        } else {
+            this.result = next;
+            return false;
+        }
+    }
+
+    /**
+     * Runs the completion step, unless already done.
+     */
+    public complete(): void {
+        if (this.isDone) {
+            return;
+        }
+        this.isDone = true;
+        try {
+            this.xf[RESULT](this.result);
+        } catch (error) {
+            this.end();
+            throw error;
+        }
+    }
+
+    /**
+     * Finishes without running the completion step, discarding any outputs
+     * not yet taken.
+     */
+    public end(): void {
+        this.isDone = true;
+        this.buffer.length = 0;
+        this.i = 0;
+    }
+
+    public hasOutput(): boolean {
+        return this.i < this.buffer.length;
+    }
+
+    public takeOutput(): TOutput {
+        const { buffer } = this;
+        const output = buffer[this.i++];
+        if (this.i === buffer.length) {
+            buffer.length = 0;
+            this.i = 0;
+        }
+        return output;
+    }
+
+    public flush(emit: (output: TOutput) => void): void {
+        while (this.hasOutput()) {
+            emit(this.takeOutput());
+        }
+    }
+}
+
 /**
  * An iterable which enables lazy consumption of the output of a
- * transducer-based transform.
+ * transducer-based transform. Outputs produced by a single step are buffered
+ * until they are read.
  */
 class TransducerIterable<TInput, TOutput> implements Iterator<TOutput> {
-    private readonly xfToArray: Transformer<TOutput[], TInput>;
-    private upcoming: Iterator<TOutput> = new ArrayIterator([]);
-    private hasSeenEnd: boolean = false;
+    private readonly stepper: TransducerStepper<TInput, TOutput>;
 
     constructor(
         private readonly iterator: Iterator<TInput>,
-        xf: Transducer<TInput, TOutput>,
+        transform: Transducer<TInput, TOutput>,
     ) {
-        this.xfToArray = xf(toArray());
+        this.stepper = new TransducerStepper(transform);
     }
 
     public [ITERATOR_SYMBOL]() {
@@ -224,25 +693,65 @@ class TransducerIterable<TInput, TOutput> implements Iterator<TOutput> {
     }
 
     public next(): IteratorResult<TOutput> {
+        const { stepper } = this;
         while (true) {
-            const backlogged = this.upcoming.next();
-            if (!backlogged.done) {
-                return backlogged;
-            } else if (this.hasSeenEnd) {
+            if (stepper.hasOutput()) {
+                return { done: false, value: stepper.takeOutput() };
+            } else if (stepper.isDone) {
                 return { done: true } as any;
-            } else {
-                const { done, value } = this.iterator.next();
-                if (done) {
-                    return { done } as any;
-                } else {
-                    let outValues = this.xfToArray[STEP]([], value);
-                    if (isReduced(outValues)) {
-                        this.hasSeenEnd = true;
-                        outValues = outValues[VALUE];
-                    }
-                    this.upcoming = new ArrayIterator(outValues);
-                }
             }
+            this.step(this.iterator.next());
+        }
+    }
+
+    public return(value?: any): IteratorResult<TOutput> {
+        if (!this.stepper.isDone) {
+            this.stepper.end();
+            closeIterator(this.iterator);
+        }
+        return { done: true, value };
+    }
+
+    /**
+     * Forwards the error to the source iterator, as yield* would. If the
+     * source handles it and produces another element, iteration continues.
+     */
+    public throw(error?: any): IteratorResult<TOutput> {
+        const { iterator, stepper } = this;
+        if (stepper.isDone) {
+            throw error;
+        } else if (!iterator.throw) {
+            stepper.end();
+            closeIteratorAfterError(iterator);
+            throw error;
+        }
+        let input: IteratorResult<TInput>;
+        try {
+            input = iterator.throw(error);
+        } catch (e) {
+            stepper.end();
+            throw e;
+        }
+        this.step(input);
+        return this.next();
+    }
+
+    private step(input: IteratorResult<TInput>): void {
+        const { stepper } = this;
+        if (input.done) {
+            stepper.complete();
+            return;
+        }
+        let isReducedStep: boolean;
+        try {
+            isReducedStep = stepper.step(input.value);
+        } catch (error) {
+            closeIteratorAfterError(this.iterator);
+            throw error;
+        }
+        if (isReducedStep) {
+            closeIterator(this.iterator);
+            stepper.complete();
         }
     }
 }
@@ -0,0 +1,167 @@
+// Adapters for Node.js streams. This module is a separate entry point,
+// "transducist/node", so that the main entry point does not depend on any
+// Node.js modules.
+
+import { EventEmitter } from "events";
+import { Readable, Transform, TransformOptions } from "stream";
+import { PushSink } from "./core";
+import { TransducerStepper } from "./iterables";
+import { Transducer } from "./types";
+
+/**
+ * Each chunk written is stepped through the transformer, and whatever the
+ * transducer outputs for it is pushed before the chunk's callback is called.
+ * Transform only writes the next chunk once the readable side wants more, so
+ * backpressure is respected. Once the transducer is done, both sides are ended
+ * and any sources piped in are unpiped, so that a pipeline can tear them down
+ * rather than feeding chunks which would only be discarded.
+ */
+class TransducerTransform<TInput, TOutput> extends Transform {
+    private readonly stepper: TransducerStepper<TInput, TOutput>;
+    private readonly sources: Readable[] = [];
+
+    constructor(
+        transform: Transducer<TInput, TOutput>,
+        options: TransformOptions,
+    ) {
+        super({
+            readableObjectMode: true,
+            writableObjectMode: true,
+            ...options,
+        });
+        this.stepper = new TransducerStepper(transform);
+        this.on("pipe", source => this.sources.push(source));
+        this.on("unpipe", source => {
+            const i = this.sources.indexOf(source);
+            if (i >= 0) {
+                this.sources.splice(i, 1);
+            }
+        });
+    }
+
+    public _transform(
+        chunk: TInput,
+        _: string,
+        callback: (error?: Error | null) => void,
+    ): void {
+        const { stepper } = this;
+        if (stepper.isDone) {
+            // Chunks written before the transducer finished, but not yet
+            // processed, are discarded.
+            callback();
+            return;
+        }
+        let isReducedStep: boolean;
+        try {
+            isReducedStep = stepper.step(chunk);
+        } catch (error) {
+            callback(error);
+            return;
+        }
+        if (isReducedStep) {
+            this.complete(callback);
+            this.sources.slice().forEach(source => source.unpipe(this));
+            this.end();
+        } else {
+            this.pushOutputs();
+            callback();
+        }
+    }
+
+    public _flush(callback: (error?: Error | null) => void): void {
+        if (this.stepper.isDone) {
+            callback();
+        } else {
+            this.complete(callback);
+        }
+    }
+
+    private pushOutputs(): void {
+        this.stepper.flush(output => this.push(output));
+    }
+
+    private complete(callback: (error?: Error | null) => void): void {
+        try {
+            this.stepper.complete();
+        } catch (error) {
+            callback(error);
+            return;
+        }
+        this.pushOutputs();
+        this.push(null);
+        callback();
+    }
+}
+
+/**
+ * Returns an object mode Transform stream which applies the transducer to the
+ * chunks written to it. Options are passed through to the Transform
+ * constructor.
+ */
+export function toNodeTransform<TInput, TOutput>(
+    transform: Transducer<TInput, TOutput>,
+    options: TransformOptions = {},
+): Transform {
+    return new TransducerTransform(transform, options);
+}
+
+export interface PushEventsOptions {
+    /** The event which completes the sink. Defaults to "end". */
+    endEvent?: string;
+    /** The event which rejects the returned promise. Defaults to "error". */
+    errorEvent?: string;
+}
+
+/**
+ * Pushes the first argument of each of the emitter's events with the given name
+ * into the sink, such as one created by into(). Returns a promise of the
+ * sink's completed result, which resolves when the end event is emitted or
+ * when the sink is done, whichever comes first. Listeners are removed once the
+ * promise settles.
+ */
+export function pushEvents<TInput, TCompleteResult>(
+    emitter: EventEmitter,
+    event: string,
+    sink: PushSink<TInput, any, TCompleteResult>,
+    options: PushEventsOptions = {},
+): Promise<TCompleteResult> {
+    const { endEvent = "end", errorEvent = "error" } = options;
+    return new Promise((resolve, reject) => {
+        const removeListeners = () => {
+            emitter.removeListener(event, onEvent);
+            emitter.removeListener(endEvent, onEnd);
+            emitter.removeListener(errorEvent, onError);
+        };
+        const onEnd = () => {
+            removeListeners();
+            try {
+                resolve(sink.complete());
+            } catch (error) {
+                reject(error);
+            }
+        };
+        const onError = (error: any) => {
+            removeListeners();
+            reject(error);
+        };
+        const onEvent = (input: TInput) => {
+            let isAccepting: boolean;
+            try {
+                isAccepting = sink.next(input);
+            } catch (error) {
+                onError(error);
+                return;
+            }
+            if (!isAccepting) {
+                onEnd();
+            }
+        };
+        if (sink.done) {
+            onEnd();
+            return;
+        }
+        emitter.on(event, onEvent);
+        emitter.on(endEvent, onEnd);
+        emitter.on(errorEvent, onError);
+    });
+}
@@ -0,0 +1,151 @@
+// Interop with observables, such as those of RxJS, without depending on any
+// observable library. Only the subscribe() contract and Symbol.observable are
+// used.
+
+import { TransducerStepper } from "./iterables";
+import { Transducer } from "./types";
+
+const OBSERVABLE_SYMBOL =
+    typeof Symbol !== "undefined" && (Symbol as any).observable
+        ? (Symbol as any).observable
+        : "@@observable";
+
+export interface ObserverLike<T> {
+    next?(value: T): void;
+    error?(error: any): void;
+    complete?(): void;
+}
+
+export interface SubscriptionLike {
+    unsubscribe(): void;
+}
+
+export interface ObservableLike<T> {
+    subscribe(observer: ObserverLike<T>): SubscriptionLike;
+}
+
+/**
+ * Observables from other libraries are converted through their
+ * Symbol.observable method, if they have one.
+ */
+function getObservable<T>(source: ObservableLike<T>): ObservableLike<T> {
+    const anySource = source as any;
+    return typeof anySource[OBSERVABLE_SYMBOL] === "function"
+        ? anySource[OBSERVABLE_SYMBOL]()
+        : anySource;
+}
+
+/**
+ * Each subscription runs its own reduction, whose outputs are sent to the
+ * subscriber after each step. Once the transducer is done, the upstream subscription is
+ * unsubscribed, which may not be possible until the source's subscribe() has
+ * returned if the source emits synchronously.
+ */
+class TransducedObservable<TInput, TOutput> implements ObservableLike<TOutput> {
+    constructor(
+        private readonly source: ObservableLike<TInput>,
+        private readonly transform: Transducer<TInput, TOutput>,
+    ) {}
+
+    public [OBSERVABLE_SYMBOL](): ObservableLike<TOutput> {
+        return this;
+    }
+
+    public subscribe(observer: ObserverLike<TOutput>): SubscriptionLike {
+        let stepper: TransducerStepper<TInput, TOutput>;
+        let isClosed = false;
+        let upstream: SubscriptionLike | undefined;
+
+        const close = () => {
+            isClosed = true;
+            if (upstream) {
+                upstream.unsubscribe();
+            }
+        };
+        const fail = (error: any) => {
+            if (observer.error) {
+                observer.error(error);
+            }
+        };
+        const emit = (output: TOutput) => {
+            if (observer.next) {
+                observer.next(output);
+            }
+        };
+        const complete = () => {
+            try {
+                stepper.complete();
+                stepper.flush(emit);
+            } catch (error) {
+                fail(error);
+                return;
+            }
+            if (observer.complete) {
+                observer.complete();
+            }
+        };
+
+        try {
+            stepper = new TransducerStepper(this.transform);
+        } catch (error) {
+            fail(error);
+            return { unsubscribe: () => undefined };
+        }
+        upstream = this.source.subscribe({
+            next: input => {
+                if (isClosed) {
+                    return;
+                }
+                let isReducedStep: boolean;
+                try {
+                    isReducedStep = stepper.step(input);
+                    stepper.flush(emit);
+                } catch (error) {
+                    close();
+                    fail(error);
+                    return;
+                }
+                if (isReducedStep) {
+                    close();
+                    complete();
+                }
+            },
+            error: error => {
+                if (!isClosed) {
+                    isClosed = true;
+                    fail(error);
+                }
+            },
+            complete: () => {
+                if (!isClosed) {
+                    isClosed = true;
+                    complete();
+                }
+            },
+        });
+        if (isClosed) {
+            upstream.unsubscribe();
+        }
+        return {
+            unsubscribe: () => {
+                if (!isClosed) {
+                    close();
+                }
+            },
+        };
+    }
+}
+
+/**
+ * Returns an observable which applies the transducer to the values of the
+ * source observable. The returned observable also has a Symbol.observable
+ * method, so it can be passed to observable libraries such as RxJS. When the
+ * transducer finishes early, the source is unsubscribed and the returned
+ * observable completes.
+ */
+export function transduceObservable<TInput, TOutput>(
+    source: ObservableLike<TInput>,
+    transform: Transducer<TInput, TOutput>,
+): ObservableLike<TOutput> {
+    return new TransducedObservable(getObservable(source), transform);
+}
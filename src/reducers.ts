@@ -1,13 +1,103 @@
+import { invertComparator, NATURAL_COMPARATOR } from "./comparators";
+import { BinaryHeap } from "./heap";
 import { INIT, RESULT, STEP, VALUE } from "./propertyNames";
 import { filter, remove } from "./transducers";
-import { Comparator, CompletingTransformer, Transformer } from "./types";
+import {
+    Comparator,
+    CompletingTransformer,
+    MaybeReduced,
+    Transformer,
+    TryResult,
+} from "./types";
 import { isReduced, reduced } from "./util";
 
+// The completion steps of these transformers leave their state unchanged and
+// return results which later steps do not modify, so that scan() can complete
+// them after every element.
+
 // Transformers with no parameters, such as the one for count() here, are
 // created the first time they are called so they can be tree shaken if unused.
 // Tree shaking does not remove top-level object literal constants if they have
 // computed keys.
 
+export interface WithErrors<TResult, TInput> {
+    result: TResult;
+    errors: Array<{ error: any; input: TInput }>;
+}
+
+interface CollectErrorsState<TResult, TInput> {
+    value: TResult;
+    errors: Array<{ error: any; input: TInput }>;
+}
+
+class CollectErrors<TResult, TCompleteResult, TInput, TOutput>
+    implements
+        CompletingTransformer<
+            CollectErrorsState<TResult, TInput>,
+            WithErrors<TCompleteResult, TInput>,
+            TryResult<TInput, TOutput>
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TOutput
+        >,
+    ) {}
+
+    public [INIT](): CollectErrorsState<TResult, TInput> {
+        return { value: this.xf[INIT](), errors: [] };
+    }
+
+    public [RESULT](
+        result: CollectErrorsState<TResult, TInput>,
+    ): WithErrors<TCompleteResult, TInput> {
+        return {
+            result: this.xf[RESULT](result.value),
+            errors: result.errors.slice(),
+        };
+    }
+
+    public [STEP](
+        result: CollectErrorsState<TResult, TInput>,
+        item: TryResult<TInput, TOutput>,
+    ): MaybeReduced<CollectErrorsState<TResult, TInput>> {
+        if (!item.ok) {
+            result.errors.push({ error: item.error, input: item.input });
+            return result;
+        }
+        const next = this.xf[STEP](result.value, item.value);
+        if (isReduced(next)) {
+            result.value = next[VALUE];
+            return reduced(result);
+        }
+        result.value = next;
+        return result;
+    }
+}
+
+export function collectErrors<TInput, TOutput>(): CompletingTransformer<
+    any,
+    WithErrors<TOutput[], TInput>,
+    TryResult<TInput, TOutput>
+>;
+export function collectErrors<TInput, TOutput, TCompleteResult>(
+    xf: CompletingTransformer<any, TCompleteResult, TOutput>,
+): CompletingTransformer<
+    any,
+    WithErrors<TCompleteResult, TInput>,
+    TryResult<TInput, TOutput>
+>;
+export function collectErrors<TInput, TOutput>(
+    xf: CompletingTransformer<any, any, TOutput> = toArray(),
+): CompletingTransformer<
+    any,
+    WithErrors<any, TInput>,
+    TryResult<TInput, TOutput>
+> {
+    return new CollectErrors(xf);
+}
+
 let countTransformer: Transformer<number, any> | undefined;
 
 export function count(): Transformer<number, any> {
@@ -21,6 +111,30 @@ export function count(): Transformer<number, any> {
     return countTransformer;
 }
 
+class CountBy<T, K> implements Transformer<Map<K, number>, T> {
+    constructor(private readonly getKey: (item: T) => K) {}
+
+    public [INIT](): Map<K, number> {
+        return new Map();
+    }
+
+    public [RESULT](result: Map<K, number>): Map<K, number> {
+        return new Map(result);
+    }
+
+    public [STEP](result: Map<K, number>, item: T): Map<K, number> {
+        const key = this.getKey(item);
+        result.set(key, (result.get(key) || 0) + 1);
+        return result;
+    }
+}
+
+export function countBy<T, K>(
+    getKey: (item: T) => K,
+): Transformer<Map<K, number>, T> {
+    return new CountBy(getKey);
+}
+
 export function every<T>(pred: (item: T) => boolean): Transformer<boolean, T> {
     return remove(pred)(isEmpty());
 }
@@ -68,6 +182,169 @@ export function forEach<T>(f: (input: T) => void): Transformer<void, T> {
 
 let isEmptyTransformer: Transformer<boolean, any> | undefined;
 
+export function frequencies<T>(): Transformer<Map<T, number>, T> {
+    return new CountBy(item => item);
+}
+
+/**
+ * A range of values from start inclusive to end exclusive, with the number of
+ * inputs which fell in that range.
+ */
+export interface HistogramBucket {
+    start: number;
+    end: number;
+    count: number;
+}
+
+export type HistogramOptions = (
+    | {
+          /**
+           * Width of each bucket. Buckets start at multiples of this size.
+           */
+          bucketSize: number;
+      }
+    | {
+          /**
+           * Ascending values separating the buckets, including the start of the
+           * first bucket and the end of the last.
+           */
+          boundaries: number[];
+      }
+) & {
+    /**
+     * Whether to return buckets containing no values. For buckets of a fixed
+     * size, these are only the buckets between the lowest and highest values.
+     * Defaults to false.
+     */
+    includeEmpty?: boolean;
+};
+
+/**
+ * The most buckets of a fixed size which histogram() will return when empty
+ * buckets are included, since the range between sparse values and an outlier
+ * could hold any number of them.
+ */
+const MAX_FIXED_SIZE_BUCKETS = 1000000;
+
+// Counts by bucket index, where bucket i covers [i * size, (i + 1) * size).
+class FixedSizeHistogram
+    implements
+        CompletingTransformer<Map<number, number>, HistogramBucket[], number> {
+    constructor(
+        private readonly bucketSize: number,
+        private readonly includeEmpty: boolean,
+    ) {}
+
+    public [INIT](): Map<number, number> {
+        return new Map();
+    }
+
+    public [RESULT](result: Map<number, number>): HistogramBucket[] {
+        const { bucketSize, includeEmpty } = this;
+        const indices: number[] = [];
+        result.forEach((_, i) => indices.push(i));
+        indices.sort((a, b) => a - b);
+        if (includeEmpty && indices.length > 0) {
+            const low = indices[0];
+            const high = indices[indices.length - 1];
+            if (high - low >= MAX_FIXED_SIZE_BUCKETS) {
+                throw new Error(
+                    `histogram() cannot return more than ${MAX_FIXED_SIZE_BUCKETS} buckets when including empty ones`,
+                );
+            }
+            indices.length = 0;
+            for (let i = low; i <= high; i++) {
+                indices.push(i);
+            }
+        }
+        return indices.map(i => ({
+            start: i * bucketSize,
+            end: (i + 1) * bucketSize,
+            count: result.get(i) || 0,
+        }));
+    }
+
+    public [STEP](
+        result: Map<number, number>,
+        input: number,
+    ): Map<number, number> {
+        if (isFinite(input)) {
+            const i = Math.floor(input / this.bucketSize);
+            result.set(i, (result.get(i) || 0) + 1);
+        }
+        return result;
+    }
+}
+
+class BoundedHistogram
+    implements CompletingTransformer<number[], HistogramBucket[], number> {
+    constructor(
+        private readonly boundaries: number[],
+        private readonly includeEmpty: boolean,
+    ) {}
+
+    public [INIT](): number[] {
+        return this.boundaries.slice(1).map(() => 0);
+    }
+
+    public [RESULT](result: number[]): HistogramBucket[] {
+        const { boundaries } = this;
+        const buckets = result.map((bucketCount, i) => ({
+            start: boundaries[i],
+            end: boundaries[i + 1],
+            count: bucketCount,
+        }));
+        return this.includeEmpty
+            ? buckets
+            : buckets.filter(bucket => bucket.count > 0);
+    }
+
+    public [STEP](result: number[], input: number): number[] {
+        const { boundaries } = this;
+        if (
+            input >= boundaries[0] &&
+            input < boundaries[boundaries.length - 1]
+        ) {
+            // Binary search for the last boundary which is at most the input.
+            let low = 0;
+            let high = boundaries.length - 1;
+            while (high - low > 1) {
+                const mid = (low + high) >> 1;
+                if (boundaries[mid] <= input) {
+                    low = mid;
+                } else {
+                    high = mid;
+                }
+            }
+            result[low]++;
+        }
+        return result;
+    }
+}
+
+export function histogram(
+    options: HistogramOptions,
+): CompletingTransformer<any, HistogramBucket[], number> {
+    const { includeEmpty = false } = options;
+    if ("bucketSize" in options) {
+        const { bucketSize } = options;
+        if (!(bucketSize > 0)) {
+            throw new Error("Bucket size in histogram() must be positive");
+        }
+        return new FixedSizeHistogram(bucketSize, includeEmpty);
+    }
+    const { boundaries } = options;
+    if (boundaries.length < 2) {
+        throw new Error("histogram() needs at least two boundaries");
+    }
+    for (let i = 1; i < boundaries.length; i++) {
+        if (!(boundaries[i - 1] < boundaries[i])) {
+            throw new Error("Boundaries in histogram() must be ascending");
+        }
+    }
+    return new BoundedHistogram(boundaries.slice(), includeEmpty);
+}
+
 export function isEmpty(): Transformer<boolean, any> {
     if (!isEmptyTransformer) {
         isEmptyTransformer = {
@@ -104,6 +381,69 @@ export function joinToString(
 
 let isNotEmptyTransformer: Transformer<boolean, any> | undefined;
 
+interface PartitionState<T> {
+    matching: InProgressTransformer<any, any, T>;
+    nonMatching: InProgressTransformer<any, any, T>;
+    // Number of sides which have not yet returned a reduced value.
+    remaining: number;
+}
+
+class Partition<T>
+    implements CompletingTransformer<PartitionState<T>, [any, any], T> {
+    constructor(
+        private readonly pred: (item: T) => boolean,
+        private readonly matchingXf: CompletingTransformer<any, any, T>,
+        private readonly nonMatchingXf: CompletingTransformer<any, any, T>,
+    ) {}
+
+    public [INIT](): PartitionState<T> {
+        return {
+            matching: new InProgressTransformer(this.matchingXf),
+            nonMatching: new InProgressTransformer(this.nonMatchingXf),
+            remaining: 2,
+        };
+    }
+
+    public [RESULT](result: PartitionState<T>): [any, any] {
+        return [result.matching.getResult(), result.nonMatching.getResult()];
+    }
+
+    public [STEP](
+        result: PartitionState<T>,
+        item: T,
+    ): MaybeReduced<PartitionState<T>> {
+        const side = this.pred(item) ? result.matching : result.nonMatching;
+        if (!side.isDone() && side.step(item)) {
+            result.remaining--;
+        }
+        return result.remaining === 0 ? reduced(result) : result;
+    }
+}
+
+export function partition<T, U extends T>(
+    pred: (item: T) => item is U,
+): CompletingTransformer<any, [U[], Array<Exclude<T, U>>], T>;
+export function partition<T>(
+    pred: (item: T) => boolean,
+): CompletingTransformer<any, [T[], T[]], T>;
+export function partition<T, U extends T, A, B>(
+    pred: (item: T) => item is U,
+    matching: CompletingTransformer<any, A, U>,
+    nonMatching: CompletingTransformer<any, B, Exclude<T, U>>,
+): CompletingTransformer<any, [A, B], T>;
+export function partition<T, A, B>(
+    pred: (item: T) => boolean,
+    matching: CompletingTransformer<any, A, T>,
+    nonMatching: CompletingTransformer<any, B, T>,
+): CompletingTransformer<any, [A, B], T>;
+export function partition<T>(
+    pred: (item: T) => boolean,
+    matching: CompletingTransformer<any, any, T> = toArray(),
+    nonMatching: CompletingTransformer<any, any, T> = toArray(),
+): CompletingTransformer<any, [any, any], T> {
+    return new Partition(pred, matching, nonMatching);
+}
+
 export function some<T>(pred: (item: T) => boolean): Transformer<boolean, T> {
     if (!isNotEmptyTransformer) {
         isNotEmptyTransformer = {
@@ -121,7 +461,7 @@ export function toArray<T>(): Transformer<T[], T> {
     if (!toArrayTransformer) {
         toArrayTransformer = {
             [INIT]: () => [],
-            [RESULT]: (result: any[]) => result,
+            [RESULT]: (result: any[]) => result.slice(),
             [STEP]: (result: any[], input: any) => {
                 result.push(input);
                 return result;
@@ -142,7 +482,7 @@ class ToMap<T, K, V> implements Transformer<Map<K, V>, T> {
     }
 
     public [RESULT](result: Map<K, V>): Map<K, V> {
-        return result;
+        return new Map(result);
     }
 
     public [STEP](result: Map<K, V>, item: T): Map<K, V> {
@@ -172,7 +512,10 @@ class InProgressTransformer<TResult, TCompleteResult, TInput> {
         this.result = xf[INIT]();
     }
 
-    public step(input: TInput): void {
+    /**
+     * Returns true if the transformer has finished and wants no more input.
+     */
+    public step(input: TInput): boolean {
         if (!this.isReduced) {
             const newResult = this.xf[STEP](this.result, input);
             if (isReduced(newResult)) {
@@ -182,6 +525,11 @@ class InProgressTransformer<TResult, TCompleteResult, TInput> {
                 this.result = newResult;
             }
         }
+        return this.isReduced;
+    }
+
+    public isDone(): boolean {
+        return this.isReduced;
     }
 
     public getResult(): TCompleteResult {
@@ -244,6 +592,81 @@ export function toMapGroupBy<T, K>(
     return new ToMapGroupBy(getKey, transformer);
 }
 
+/**
+ * The results of the transformers in a record passed to combine(), under the
+ * same keys.
+ */
+export type CombinedResults<
+    T extends Record<string, CompletingTransformer<any, any, any>>
+> = {
+    [K in keyof T]: T[K] extends CompletingTransformer<any, infer U, any>
+        ? U
+        : never;
+};
+
+interface CombineState<TInput> {
+    branches: Array<InProgressTransformer<any, any, TInput>>;
+    // Branches which have not yet returned a reduced value.
+    active: Array<InProgressTransformer<any, any, TInput>>;
+}
+
+class Combine<TInput>
+    implements
+        CompletingTransformer<
+            CombineState<TInput>,
+            Record<string, any>,
+            TInput
+        > {
+    private readonly keys: string[];
+
+    constructor(
+        private readonly transformers: Record<
+            string,
+            CompletingTransformer<any, any, TInput>
+        >,
+    ) {
+        this.keys = Object.keys(transformers);
+    }
+
+    public [INIT](): CombineState<TInput> {
+        const branches = this.keys.map(
+            key => new InProgressTransformer(this.transformers[key]),
+        );
+        return { branches, active: branches.slice() };
+    }
+
+    public [RESULT](result: CombineState<TInput>): Record<string, any> {
+        const completeResult: Record<string, any> = {};
+        this.keys.forEach((key, i) => {
+            completeResult[key] = result.branches[i].getResult();
+        });
+        return completeResult;
+    }
+
+    public [STEP](
+        result: CombineState<TInput>,
+        input: TInput,
+    ): MaybeReduced<CombineState<TInput>> {
+        const { active } = result;
+        let i = 0;
+        while (i < active.length) {
+            if (active[i].step(input)) {
+                active.splice(i, 1);
+            } else {
+                i++;
+            }
+        }
+        return active.length === 0 ? reduced(result) : result;
+    }
+}
+
+export function combine<
+    TInput,
+    T extends Record<string, CompletingTransformer<any, any, TInput>>
+>(transformers: T): CompletingTransformer<any, CombinedResults<T>, TInput> {
+    return new Combine(transformers) as any;
+}
+
 class ToObject<T, K extends keyof any, V>
     implements Transformer<Record<K, V>, T> {
     constructor(
@@ -256,7 +679,7 @@ class ToObject<T, K extends keyof any, V>
     }
 
     public [RESULT](result: Record<K, V>): Record<K, V> {
-        return result;
+        return { ...result };
     }
 
     public [STEP](result: Record<K, V>, item: T): Record<K, V> {
@@ -272,6 +695,31 @@ export function toObject<T, K extends keyof any, V>(
     return new ToObject(getKey, getValue);
 }
 
+class ToObjectCountBy<T, K extends keyof any>
+    implements Transformer<Record<K, number>, T> {
+    constructor(private readonly getKey: (item: T) => K) {}
+
+    public [INIT](): Record<K, number> {
+        return {} as any;
+    }
+
+    public [RESULT](result: Record<K, number>): Record<K, number> {
+        return { ...result };
+    }
+
+    public [STEP](result: Record<K, number>, item: T): Record<K, number> {
+        const key = this.getKey(item);
+        result[key] = (result[key] || 0) + 1;
+        return result;
+    }
+}
+
+export function toObjectCountBy<T, K extends keyof any>(
+    getKey: (item: T) => K,
+): Transformer<Record<K, number>, T> {
+    return new ToObjectCountBy(getKey);
+}
+
 class ToObjectGroupBy<T, K extends keyof any, V>
     implements
         CompletingTransformer<
@@ -334,7 +782,7 @@ export function toSet<T>(): Transformer<Set<T>, T> {
     if (!toSetTransformer) {
         toSetTransformer = {
             [INIT]: () => new Set(),
-            [RESULT]: (result: Set<any>) => result,
+            [RESULT]: (result: Set<any>) => new Set(result),
             [STEP]: (result: Set<any>, input: any) => {
                 result.add(input);
                 return result;
@@ -368,6 +816,231 @@ export function toAverage(): CompletingTransformer<
     return averageTransformer;
 }
 
+export interface VarianceOptions {
+    /**
+     * If true, computes the sample variance, dividing by one less than the
+     * number of elements, rather than the population variance. Defaults to
+     * false.
+     */
+    sample?: boolean;
+}
+
+interface WelfordState {
+    count: number;
+    mean: number;
+    // Sum of squared differences from the current mean.
+    m2: number;
+}
+
+// Welford's online algorithm, which avoids the loss of precision that comes
+// from subtracting a sum of squares from a squared sum.
+class Variance
+    implements CompletingTransformer<WelfordState, number | null, number> {
+    constructor(
+        private readonly isSample: boolean,
+        private readonly isStandardDeviation: boolean,
+    ) {}
+
+    public [INIT](): WelfordState {
+        return { count: 0, mean: 0, m2: 0 };
+    }
+
+    public [RESULT](result: WelfordState): number | null {
+        const divisor = this.isSample ? result.count - 1 : result.count;
+        if (divisor <= 0) {
+            return null;
+        }
+        const squared = result.m2 / divisor;
+        return this.isStandardDeviation ? Math.sqrt(squared) : squared;
+    }
+
+    public [STEP](result: WelfordState, input: number): WelfordState {
+        result.count++;
+        const delta = input - result.mean;
+        result.mean += delta / result.count;
+        result.m2 += delta * (input - result.mean);
+        return result;
+    }
+}
+
+export function variance(
+    options: VarianceOptions = {},
+): CompletingTransformer<any, number | null, number> {
+    return new Variance(!!options.sample, false);
+}
+
+export function stddev(
+    options: VarianceOptions = {},
+): CompletingTransformer<any, number | null, number> {
+    return new Variance(!!options.sample, true);
+}
+
+function validateQuantile(q: number): void {
+    if (!(q >= 0 && q <= 1)) {
+        throw new Error(`Quantile must be between 0 and 1, but was ${q}`);
+    }
+}
+
+// Interpolates linearly between the closest ranks.
+function getQuantileOfSorted(sorted: number[], q: number): number | null {
+    if (sorted.length === 0) {
+        return null;
+    }
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function compareNumbers(a: number, b: number): number {
+    return a - b;
+}
+
+class Quantile
+    implements CompletingTransformer<number[], number | null, number> {
+    constructor(private readonly q: number) {}
+
+    public [INIT](): number[] {
+        return [];
+    }
+
+    public [RESULT](result: number[]): number | null {
+        return getQuantileOfSorted(result.sort(compareNumbers), this.q);
+    }
+
+    public [STEP](result: number[], input: number): number[] {
+        result.push(input);
+        return result;
+    }
+}
+
+export function quantile(
+    q: number,
+): CompletingTransformer<any, number | null, number> {
+    validateQuantile(q);
+    return new Quantile(q);
+}
+
+export function median(): CompletingTransformer<any, number | null, number> {
+    return quantile(0.5);
+}
+
+interface P2State {
+    // Until five inputs have been seen, just the inputs. After that, the
+    // heights of the five markers.
+    heights: number[];
+    // Actual positions of the markers, counting from 1.
+    positions: number[];
+    // Desired positions of the markers.
+    desired: number[];
+}
+
+const P2_MARKER_COUNT = 5;
+
+/**
+ * The P² algorithm of Jain and Chlamtac, which estimates a quantile using
+ * constant memory by keeping five markers whose heights are adjusted as inputs
+ * arrive. The middle marker approximates the quantile.
+ */
+class P2Quantile
+    implements CompletingTransformer<P2State, number | null, number> {
+    private readonly increments: number[];
+
+    constructor(private readonly q: number) {
+        this.increments = [0, q / 2, q, (1 + q) / 2, 1];
+    }
+
+    public [INIT](): P2State {
+        const { q } = this;
+        return {
+            heights: [],
+            positions: [1, 2, 3, 4, 5],
+            desired: [1, 1 + 2 * q, 1 + 4 * q, 3 + 2 * q, 5],
+        };
+    }
+
+    public [RESULT](result: P2State): number | null {
+        const { heights } = result;
+        const { q } = this;
+        if (heights.length < P2_MARKER_COUNT) {
+            return getQuantileOfSorted(heights.slice().sort(compareNumbers), q);
+        }
+        // The outer markers hold the exact minimum and maximum.
+        return q === 0 ? heights[0] : q === 1 ? heights[4] : heights[2];
+    }
+
+    public [STEP](result: P2State, input: number): P2State {
+        const { heights, positions, desired } = result;
+        if (heights.length < P2_MARKER_COUNT) {
+            heights.push(input);
+            if (heights.length === P2_MARKER_COUNT) {
+                heights.sort(compareNumbers);
+            }
+            return result;
+        }
+        let k: number;
+        if (input < heights[0]) {
+            heights[0] = input;
+            k = 0;
+        } else if (input >= heights[4]) {
+            heights[4] = input;
+            k = 3;
+        } else {
+            k = 0;
+            while (input >= heights[k + 1]) {
+                k++;
+            }
+        }
+        for (let i = k + 1; i < P2_MARKER_COUNT; i++) {
+            positions[i]++;
+        }
+        for (let i = 0; i < P2_MARKER_COUNT; i++) {
+            desired[i] += this.increments[i];
+        }
+        for (let i = 1; i < P2_MARKER_COUNT - 1; i++) {
+            const d = desired[i] - positions[i];
+            if (
+                (d >= 1 && positions[i + 1] - positions[i] > 1) ||
+                (d <= -1 && positions[i - 1] - positions[i] < -1)
+            ) {
+                const sign = d > 0 ? 1 : -1;
+                const parabolic = getP2Parabolic(heights, positions, i, sign);
+                heights[i] =
+                    heights[i - 1] < parabolic && parabolic < heights[i + 1]
+                        ? parabolic
+                        : heights[i] +
+                          (sign * (heights[i + sign] - heights[i])) /
+                              (positions[i + sign] - positions[i]);
+                positions[i] += sign;
+            }
+        }
+        return result;
+    }
+}
+
+function getP2Parabolic(
+    heights: number[],
+    positions: number[],
+    i: number,
+    sign: number,
+): number {
+    const [q0, q1, q2] = [heights[i - 1], heights[i], heights[i + 1]];
+    const [n0, n1, n2] = [positions[i - 1], positions[i], positions[i + 1]];
+    return (
+        q1 +
+        (sign / (n2 - n0)) *
+            (((n1 - n0 + sign) * (q2 - q1)) / (n2 - n1) +
+                ((n2 - n1 - sign) * (q1 - q0)) / (n1 - n0))
+    );
+}
+
+export function approximateQuantile(
+    q: number,
+): CompletingTransformer<any, number | null, number> {
+    validateQuantile(q);
+    return new P2Quantile(q);
+}
+
 class Min<T> implements Transformer<T | null, T> {
     constructor(private readonly comparator: Comparator<T>) {}
 
@@ -386,18 +1059,6 @@ class Min<T> implements Transformer<T | null, T> {
     }
 }
 
-function invertComparator<T>(comparator: Comparator<T>): Comparator<T> {
-    return (a, b) => -comparator(a, b);
-}
-
-const NATURAL_COMPARATOR: Comparator<number> = (a: number, b: number) => {
-    if (a < b) {
-        return -1;
-    } else {
-        return a > b ? 1 : 0;
-    }
-};
-
 export function max(): Transformer<number | null, number>;
 export function max<T>(comparator: Comparator<T>): Transformer<T | null, T>;
 export function max(
@@ -414,6 +1075,137 @@ export function min(
     return new Min(comparator);
 }
 
+interface MinByState<T, K> {
+    value: T;
+    key: K;
+}
+
+// Keeps the key of the best element so far, so each key is computed only once.
+class MinBy<T, K>
+    implements CompletingTransformer<MinByState<T, K> | null, T | null, T> {
+    constructor(
+        private readonly getKey: (item: T) => K,
+        private readonly comparator: Comparator<K>,
+    ) {}
+
+    public [INIT](): MinByState<T, K> | null {
+        return null;
+    }
+
+    public [RESULT](result: MinByState<T, K> | null): T | null {
+        return result && result.value;
+    }
+
+    public [STEP](
+        result: MinByState<T, K> | null,
+        input: T,
+    ): MinByState<T, K> | null {
+        const key = this.getKey(input);
+        return result === null || this.comparator(key, result.key) < 0
+            ? { value: input, key }
+            : result;
+    }
+}
+
+export function maxBy<T>(
+    getKey: (item: T) => any,
+): CompletingTransformer<any, T | null, T> {
+    return new MinBy(getKey, invertComparator(NATURAL_COMPARATOR));
+}
+
+export function minBy<T>(
+    getKey: (item: T) => any,
+): CompletingTransformer<any, T | null, T> {
+    return new MinBy(getKey, NATURAL_COMPARATOR);
+}
+
+interface BottomKEntry<T> {
+    value: T;
+    // Position in the input, used to keep the earliest of equal elements.
+    index: number;
+}
+
+interface BottomKState<T> {
+    heap: BinaryHeap<BottomKEntry<T>>;
+    count: number;
+}
+
+/**
+ * Keeps the k smallest elements seen so far in a heap with the largest of them
+ * on top, so that each new element need only be compared against the top.
+ */
+class BottomK<T> implements CompletingTransformer<BottomKState<T>, T[], T> {
+    private readonly entryComparator: Comparator<BottomKEntry<T>>;
+
+    constructor(private readonly k: number, comparator: Comparator<T>) {
+        this.entryComparator = (a, b) =>
+            comparator(a.value, b.value) || a.index - b.index;
+    }
+
+    public [INIT](): BottomKState<T> {
+        return {
+            heap: new BinaryHeap(invertComparator(this.entryComparator)),
+            count: 0,
+        };
+    }
+
+    public [RESULT](result: BottomKState<T>): T[] {
+        return result.heap
+            .toArray()
+            .sort(this.entryComparator)
+            .map(entry => entry.value);
+    }
+
+    public [STEP](
+        result: BottomKState<T>,
+        input: T,
+    ): MaybeReduced<BottomKState<T>> {
+        const { heap } = result;
+        if (this.k === 0) {
+            return reduced(result);
+        }
+        const entry = { value: input, index: result.count++ };
+        if (heap.size() < this.k) {
+            heap.push(entry);
+        } else if (this.entryComparator(entry, heap.peek()!) < 0) {
+            heap.replaceTop(entry);
+        }
+        return result;
+    }
+}
+
+export function bottomK(
+    k: number,
+): CompletingTransformer<any, number[], number>;
+export function bottomK<T>(
+    k: number,
+    comparator: Comparator<T>,
+): CompletingTransformer<any, T[], T>;
+export function bottomK(
+    k: number,
+    comparator: Comparator<any> = NATURAL_COMPARATOR,
+): CompletingTransformer<any, any[], any> {
+    if (k < 0) {
+        throw new Error("k in bottomK() cannot be negative");
+    }
+    return new BottomK(k, comparator);
+}
+
+export function topK(k: number): CompletingTransformer<any, number[], number>;
+export function topK<T>(
+    k: number,
+    comparator: Comparator<T>,
+): CompletingTransformer<any, T[], T>;
+export function topK(
+    k: number,
+    comparator: Comparator<any> = NATURAL_COMPARATOR,
+): CompletingTransformer<any, any[], any> {
+    if (k < 0) {
+        throw new Error("k in topK() cannot be negative");
+    }
+    return new BottomK(k, invertComparator(comparator));
+}
+
 let sumTransformer: Transformer<number, number> | undefined;
 
 export function sum(): Transformer<number, number> {
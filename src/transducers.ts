@@ -1,10 +1,24 @@
-import { reduceWithFunction } from "./core";
+import { ascending, NATURAL_COMPARATOR, thenBy } from "./comparators";
+import {
+    ReducerWrappingTransformer,
+    reduceWithFunction,
+    reduceWithTransformer,
+} from "./core";
+import {
+    closeIterator,
+    closeIteratorAfterError,
+    getIterator,
+} from "./iterables";
 import { INIT, RESULT, STEP, VALUE } from "./propertyNames";
+import { toMapGroupBy } from "./reducers";
 import {
+    Comparator,
     CompletingTransformer,
+    Equivalence,
     MaybeReduced,
     QuittingReducer,
     Transducer,
+    TryResult,
 } from "./types";
 import { ensureReduced, isReduced, reduced, unreduced } from "./util";
 
@@ -13,6 +27,10 @@ import { ensureReduced, isReduced, reduced, unreduced } from "./util";
 // significantly damaged performance. These functions are the bottleneck of the
 // code, so any added layers of indirection have a nontrivial perf cost.
 
+// Any state needed over the course of a reduction is kept in the result
+// returned by INIT rather than on the transformer itself, so that one
+// transformer may be used for any number of reductions, even simultaneously.
+
 interface ValueWrapper<T> {
     value: T;
 }
@@ -30,6 +48,59 @@ function updateValue<T, TWrapper extends ValueWrapper<T>>(
     }
 }
 
+/**
+ * Catches errors thrown while later stages, including the reducer, process an
+ * input. The state is not rolled back: stages which only update their state
+ * after passing an input on, such as take(), are left as they were, but those
+ * which update it first, such as distinct(), partitionAll() and mapIndexed(),
+ * keep the update. Replacements are stepped without this protection, so that
+ * a replacement which fails again cannot cause an endless loop.
+ */
+class CatchError<TResult, TCompleteResult, TInput>
+    implements CompletingTransformer<TResult, TCompleteResult, TInput> {
+    private readonly step: QuittingReducer<TResult, TInput>;
+
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput
+        >,
+        private readonly handler: (
+            error: any,
+            input: TInput,
+        ) => Iterable<TInput>,
+    ) {
+        this.step = xf[STEP].bind(xf);
+    }
+
+    public [INIT](): TResult {
+        return this.xf[INIT]();
+    }
+
+    public [RESULT](result: TResult): TCompleteResult {
+        return this.xf[RESULT](result);
+    }
+
+    public [STEP](result: TResult, input: TInput): MaybeReduced<TResult> {
+        try {
+            return this.xf[STEP](result, input);
+        } catch (error) {
+            return reduceWithFunction(
+                this.handler(error, input),
+                this.step,
+                result,
+            );
+        }
+    }
+}
+
+export function catchError<T>(
+    handler: (error: any, input: T) => Iterable<T>,
+): Transducer<T, T> {
+    return xf => new CatchError(xf, handler);
+}
+
 interface DedupeState<T> extends ValueWrapper<T> {
     last: T | {};
 }
@@ -70,10 +141,127 @@ export function dedupe<T>(): Transducer<T, T> {
     return xf => new Dedupe(xf);
 }
 
-class Drop<TResult, TCompleteResult, TInput>
-    implements CompletingTransformer<TResult, TCompleteResult, TInput> {
-    private i = 0;
+interface DistinctState<TResult, TKey> extends ValueWrapper<TResult> {
+    seen: Set<TKey>;
+}
+
+class DistinctBy<TResult, TCompleteResult, TInput, TKey>
+    implements
+        CompletingTransformer<
+            DistinctState<TResult, TKey>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput
+        >,
+        private readonly getKey: (item: TInput) => TKey,
+    ) {}
+
+    public [INIT](): DistinctState<TResult, TKey> {
+        return { value: this.xf[INIT](), seen: new Set() };
+    }
+
+    public [RESULT](result: DistinctState<TResult, TKey>): TCompleteResult {
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: DistinctState<TResult, TKey>,
+        input: TInput,
+    ): MaybeReduced<DistinctState<TResult, TKey>> {
+        const key = this.getKey(input);
+        if (result.seen.has(key)) {
+            return result;
+        } else {
+            result.seen.add(key);
+            return updateValue(result, this.xf[STEP](result.value, input));
+        }
+    }
+}
+
+interface DistinctByEquivalenceState<TResult, TKey>
+    extends ValueWrapper<TResult> {
+    // Keys seen so far, grouped by hash.
+    seen: Map<any, TKey[]>;
+}
+
+class DistinctByEquivalence<TResult, TCompleteResult, TInput, TKey>
+    implements
+        CompletingTransformer<
+            DistinctByEquivalenceState<TResult, TKey>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput
+        >,
+        private readonly getKey: (item: TInput) => TKey,
+        private readonly equivalence: Equivalence<TKey>,
+    ) {}
+
+    public [INIT](): DistinctByEquivalenceState<TResult, TKey> {
+        return { value: this.xf[INIT](), seen: new Map() };
+    }
+
+    public [RESULT](
+        result: DistinctByEquivalenceState<TResult, TKey>,
+    ): TCompleteResult {
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: DistinctByEquivalenceState<TResult, TKey>,
+        input: TInput,
+    ): MaybeReduced<DistinctByEquivalenceState<TResult, TKey>> {
+        const { equivalence } = this;
+        const key = this.getKey(input);
+        const hash = equivalence.hash(key);
+        let bucket = result.seen.get(hash);
+        if (!bucket) {
+            bucket = [];
+            result.seen.set(hash, bucket);
+        }
+        for (const seenKey of bucket) {
+            if (equivalence.equals(seenKey, key)) {
+                return result;
+            }
+        }
+        bucket.push(key);
+        return updateValue(result, this.xf[STEP](result.value, input));
+    }
+}
+
+export function distinct<T>(): Transducer<T, T> {
+    return distinctBy(identity);
+}
+
+export function distinctBy<T, K>(
+    getKey: (item: T) => K,
+    equivalence?: Equivalence<K>,
+): Transducer<T, T> {
+    return equivalence
+        ? xf => new DistinctByEquivalence(xf, getKey, equivalence)
+        : xf => new DistinctBy(xf, getKey);
+}
+
+function identity<T>(x: T): T {
+    return x;
+}
+
+interface DropState<T> extends ValueWrapper<T> {
+    i: number;
+}
 
+class Drop<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<DropState<TResult>, TCompleteResult, TInput> {
     constructor(
         private readonly xf: CompletingTransformer<
             TResult,
@@ -83,16 +271,21 @@ class Drop<TResult, TCompleteResult, TInput>
         private readonly n: number,
     ) {}
 
-    public [INIT](): TResult {
-        return this.xf[INIT]();
+    public [INIT](): DropState<TResult> {
+        return { value: this.xf[INIT](), i: 0 };
     }
 
-    public [RESULT](result: TResult): TCompleteResult {
-        return this.xf[RESULT](result);
+    public [RESULT](result: DropState<TResult>): TCompleteResult {
+        return this.xf[RESULT](result.value);
     }
 
-    public [STEP](result: TResult, input: TInput): MaybeReduced<TResult> {
-        return this.i++ < this.n ? result : this.xf[STEP](result, input);
+    public [STEP](
+        result: DropState<TResult>,
+        input: TInput,
+    ): MaybeReduced<DropState<TResult>> {
+        return result.i++ < this.n
+            ? result
+            : updateValue(result, this.xf[STEP](result.value, input));
     }
 }
 
@@ -219,10 +412,17 @@ export function flatMap<T, U>(f: (item: T) => Iterable<U>): Transducer<T, U> {
     return xf => new MapTransformer(new Flatten(xf), f);
 }
 
-class Interpose<TResult, TCompleteResult, TInput>
-    implements CompletingTransformer<TResult, TCompleteResult, TInput> {
-    private isStarted = false;
+interface InterposeState<T> extends ValueWrapper<T> {
+    isStarted: boolean;
+}
 
+class Interpose<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<
+            InterposeState<TResult>,
+            TCompleteResult,
+            TInput
+        > {
     constructor(
         private readonly xf: CompletingTransformer<
             TResult,
@@ -232,25 +432,28 @@ class Interpose<TResult, TCompleteResult, TInput>
         private readonly separator: TInput,
     ) {}
 
-    public [INIT](): TResult {
-        return this.xf[INIT]();
+    public [INIT](): InterposeState<TResult> {
+        return { value: this.xf[INIT](), isStarted: false };
     }
 
-    public [RESULT](result: TResult): TCompleteResult {
-        return this.xf[RESULT](result);
+    public [RESULT](result: InterposeState<TResult>): TCompleteResult {
+        return this.xf[RESULT](result.value);
     }
 
-    public [STEP](result: TResult, input: TInput): MaybeReduced<TResult> {
-        if (this.isStarted) {
-            const withSeparator = this.xf[STEP](result, this.separator);
+    public [STEP](
+        result: InterposeState<TResult>,
+        input: TInput,
+    ): MaybeReduced<InterposeState<TResult>> {
+        if (result.isStarted) {
+            const withSeparator = this.xf[STEP](result.value, this.separator);
             if (isReduced(withSeparator)) {
-                return withSeparator;
+                return updateValue(result, withSeparator);
             } else {
-                return this.xf[STEP](withSeparator, input);
+                return updateValue(result, this.xf[STEP](withSeparator, input));
             }
         } else {
-            this.isStarted = true;
-            return this.xf[STEP](result, input);
+            result.isStarted = true;
+            return updateValue(result, this.xf[STEP](result.value, input));
         }
     }
 }
@@ -259,6 +462,155 @@ export function interpose<T>(separator: T): Transducer<T, T> {
     return xf => new Interpose(xf, separator);
 }
 
+export interface JoinOptions {
+    /**
+     * Which inputs are emitted when there is no match on the other side.
+     * "inner" emits only matches, "left" also emits inputs with no match in the
+     * other collection, and "full" additionally emits, once the input ends, the
+     * elements of the other collection which matched no input. Defaults to
+     * "inner".
+     */
+    kind?: "inner" | "left" | "full";
+}
+
+interface JoinOnState<TResult, TKey, TOther> extends ValueWrapper<TResult> {
+    index: Map<TKey, TOther[]>;
+    matchedKeys: Set<TKey>;
+    // Set once the next stage returns a reduced value, after which the
+    // unmatched rows of a full join must not be emitted.
+    isDownstreamDone: boolean;
+}
+
+class JoinOn<TResult, TCompleteResult, TInput, TOther, TKey>
+    implements
+        CompletingTransformer<
+            JoinOnState<TResult, TKey, TOther>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            [TInput | null, TOther | null]
+        >,
+        private readonly getIndex: () => Map<TKey, TOther[]>,
+        private readonly leftKey: (item: TInput) => TKey,
+        private readonly kind: "inner" | "left" | "full",
+    ) {}
+
+    public [INIT](): JoinOnState<TResult, TKey, TOther> {
+        return {
+            value: this.xf[INIT](),
+            index: this.getIndex(),
+            matchedKeys: new Set(),
+            isDownstreamDone: false,
+        };
+    }
+
+    public [RESULT](
+        result: JoinOnState<TResult, TKey, TOther>,
+    ): TCompleteResult {
+        if (this.kind === "full" && !result.isDownstreamDone) {
+            const { index, matchedKeys } = result;
+            const entries = index.entries();
+            let value: MaybeReduced<TResult> = result.value;
+            for (
+                let step = entries.next();
+                !step.done && !isReduced(value);
+                step = entries.next()
+            ) {
+                const [key, others] = step.value;
+                if (!matchedKeys.has(key)) {
+                    for (
+                        let i = 0;
+                        i < others.length && !isReduced(value);
+                        i++
+                    ) {
+                        value = this.xf[STEP](value, [null, others[i]]);
+                    }
+                }
+            }
+            result.value = unreduced(value);
+        }
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: JoinOnState<TResult, TKey, TOther>,
+        input: TInput,
+    ): MaybeReduced<JoinOnState<TResult, TKey, TOther>> {
+        const key = this.leftKey(input);
+        const others = result.index.get(key);
+        if (!others) {
+            return this.kind === "inner"
+                ? result
+                : this.updateJoinValue(
+                      result,
+                      this.xf[STEP](result.value, [input, null]),
+                  );
+        }
+        if (this.kind === "full") {
+            result.matchedKeys.add(key);
+        }
+        for (const other of others) {
+            const next = this.xf[STEP](result.value, [input, other]);
+            if (isReduced(next)) {
+                return this.updateJoinValue(result, next);
+            }
+            result.value = next;
+        }
+        return result;
+    }
+
+    private updateJoinValue(
+        result: JoinOnState<TResult, TKey, TOther>,
+        newValue: MaybeReduced<TResult>,
+    ): MaybeReduced<JoinOnState<TResult, TKey, TOther>> {
+        if (isReduced(newValue)) {
+            result.isDownstreamDone = true;
+        }
+        return updateValue(result, newValue);
+    }
+}
+
+export function joinOn<T, U, K>(
+    other: Iterable<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+    options?: JoinOptions & { kind?: "inner" },
+): Transducer<T, [T, U]>;
+export function joinOn<T, U, K>(
+    other: Iterable<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+    options: JoinOptions & { kind: "left" },
+): Transducer<T, [T, U | null]>;
+export function joinOn<T, U, K>(
+    other: Iterable<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+    options: JoinOptions,
+): Transducer<T, [T | null, U | null]>;
+export function joinOn<T, U, K>(
+    other: Iterable<U>,
+    leftKey: (item: T) => K,
+    rightKey: (item: U) => K,
+    options: JoinOptions = {},
+): Transducer<T, [T | null, U | null]> {
+    const { kind = "inner" } = options;
+    // Built on the first run and shared by every later one, so that the other
+    // collection is read only once, even if it can only be iterated once.
+    let index: Map<K, U[]> | undefined;
+    const getIndex = () => {
+        if (!index) {
+            index = reduceWithTransformer(other, toMapGroupBy(rightKey));
+        }
+        return index;
+    };
+    return xf => new JoinOn(xf, getIndex, leftKey, kind);
+}
+
 // Not named Map to avoid confusion with the native Map class.
 class MapTransformer<TResult, TCompleteResult, TInput, TOutput>
     implements CompletingTransformer<TResult, TCompleteResult, TInput> {
@@ -333,17 +685,15 @@ export function mapIndexed<T, U>(
     return xf => new MapIndexed(xf, f);
 }
 
-class PartitionAll<TResult, TCompleteResult, TInput>
+class MapTry<TResult, TCompleteResult, TInput, TOutput>
     implements CompletingTransformer<TResult, TCompleteResult, TInput> {
-    private buffer: TInput[] = [];
-
     constructor(
         private readonly xf: CompletingTransformer<
             TResult,
             TCompleteResult,
-            TInput[]
+            TryResult<TInput, TOutput>
         >,
-        private readonly n: number,
+        private readonly f: (item: TInput) => TOutput,
     ) {}
 
     public [INIT](): TResult {
@@ -351,19 +701,135 @@ class PartitionAll<TResult, TCompleteResult, TInput>
     }
 
     public [RESULT](result: TResult): TCompleteResult {
-        if (this.buffer.length > 0) {
-            result = unreduced(this.xf[STEP](result, this.buffer));
-            this.buffer = [];
-        }
         return this.xf[RESULT](result);
     }
 
     public [STEP](result: TResult, input: TInput): MaybeReduced<TResult> {
-        this.buffer.push(input);
-        if (this.buffer.length === this.n) {
-            const newResult = this.xf[STEP](result, this.buffer);
-            this.buffer = [];
-            return newResult;
+        let output: TryResult<TInput, TOutput>;
+        try {
+            output = { ok: true, value: this.f(input) };
+        } catch (error) {
+            output = { ok: false, error, input };
+        }
+        return this.xf[STEP](result, output);
+    }
+}
+
+export function mapTry<T, U>(
+    f: (item: T) => U,
+): Transducer<T, TryResult<T, U>> {
+    return xf => new MapTry(xf, f);
+}
+
+interface PairWithState<TResult, TOther> extends ValueWrapper<TResult> {
+    iterator: Iterator<TOther>;
+    isOtherDone: boolean;
+}
+
+class PairWith<TResult, TCompleteResult, TInput, TOther>
+    implements
+        CompletingTransformer<
+            PairWithState<TResult, TOther>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            [TInput, TOther]
+        >,
+        private readonly other: Iterable<TOther>,
+    ) {}
+
+    public [INIT](): PairWithState<TResult, TOther> {
+        return {
+            value: this.xf[INIT](),
+            iterator: getIterator(this.other),
+            isOtherDone: false,
+        };
+    }
+
+    public [RESULT](result: PairWithState<TResult, TOther>): TCompleteResult {
+        if (!result.isOtherDone) {
+            result.isOtherDone = true;
+            closeIterator(result.iterator);
+        }
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: PairWithState<TResult, TOther>,
+        input: TInput,
+    ): MaybeReduced<PairWithState<TResult, TOther>> {
+        const next = result.iterator.next();
+        if (next.done) {
+            result.isOtherDone = true;
+            return reduced(result);
+        }
+        try {
+            return updateValue(
+                result,
+                this.xf[STEP](result.value, [input, next.value]),
+            );
+        } catch (error) {
+            // RESULT is never called after a failed step, so the other
+            // iterator is closed here instead.
+            closeIteratorAfterError(result.iterator);
+            throw error;
+        }
+    }
+}
+
+export function pairWith<T, U>(other: Iterable<U>): Transducer<T, [T, U]> {
+    return xf => new PairWith(xf, other);
+}
+
+interface PartitionAllState<TResult, TInput> extends ValueWrapper<TResult> {
+    buffer: TInput[];
+}
+
+class PartitionAll<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<
+            PartitionAllState<TResult, TInput>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput[]
+        >,
+        private readonly n: number,
+    ) {}
+
+    public [INIT](): PartitionAllState<TResult, TInput> {
+        return { value: this.xf[INIT](), buffer: [] };
+    }
+
+    public [RESULT](
+        result: PartitionAllState<TResult, TInput>,
+    ): TCompleteResult {
+        if (result.buffer.length > 0) {
+            result.value = unreduced(
+                this.xf[STEP](result.value, result.buffer),
+            );
+            result.buffer = [];
+        }
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: PartitionAllState<TResult, TInput>,
+        input: TInput,
+    ): MaybeReduced<PartitionAllState<TResult, TInput>> {
+        const { buffer } = result;
+        buffer.push(input);
+        if (buffer.length === this.n) {
+            result.buffer = [];
+            return updateValue(result, this.xf[STEP](result.value, buffer));
         } else {
             return result;
         }
@@ -379,6 +845,143 @@ export function partitionAll<T>(n: number): Transducer<T, T[]> {
     return xf => new PartitionAll(xf, n);
 }
 
+export interface PartitionSlidingOptions {
+    /**
+     * If true, windows which are still incomplete when the input ends are
+     * emitted. Defaults to false.
+     */
+    includePartial?: boolean;
+}
+
+interface PartitionSlidingState<TResult, TInput> extends ValueWrapper<TResult> {
+    // Ring buffer of the most recent inputs, of length at most size.
+    buffer: TInput[];
+    start: number;
+    // Number of inputs remaining before the next window is complete.
+    remaining: number;
+    // Number of inputs to skip before the next window starts, when the step
+    // is greater than the size.
+    toSkip: number;
+}
+
+class PartitionSliding<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<
+            PartitionSlidingState<TResult, TInput>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput[]
+        >,
+        private readonly size: number,
+        private readonly step: number,
+        private readonly includePartial: boolean,
+    ) {}
+
+    public [INIT](): PartitionSlidingState<TResult, TInput> {
+        return {
+            value: this.xf[INIT](),
+            buffer: [],
+            start: 0,
+            remaining: this.size,
+            toSkip: 0,
+        };
+    }
+
+    public [RESULT](
+        result: PartitionSlidingState<TResult, TInput>,
+    ): TCompleteResult {
+        if (this.includePartial) {
+            // Each window which has started but is incomplete consists of the
+            // most recent inputs, with later windows shorter by one step.
+            for (
+                let length = this.size - result.remaining;
+                length > 0;
+                length -= this.step
+            ) {
+                const next = this.xf[STEP](
+                    result.value,
+                    getLastFromRing(result, length),
+                );
+                result.value = unreduced(next);
+                if (isReduced(next)) {
+                    break;
+                }
+            }
+        }
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: PartitionSlidingState<TResult, TInput>,
+        input: TInput,
+    ): MaybeReduced<PartitionSlidingState<TResult, TInput>> {
+        if (result.toSkip > 0) {
+            result.toSkip--;
+            return result;
+        }
+        const { size, step } = this;
+        const { buffer } = result;
+        if (buffer.length < size) {
+            buffer.push(input);
+        } else {
+            buffer[result.start] = input;
+            result.start = (result.start + 1) % size;
+        }
+        if (--result.remaining > 0) {
+            return result;
+        }
+        const window = getLastFromRing(result, size);
+        if (step < size) {
+            result.remaining = step;
+        } else {
+            result.buffer = [];
+            result.start = 0;
+            result.remaining = size;
+            result.toSkip = step - size;
+        }
+        const next = updateValue(result, this.xf[STEP](result.value, window));
+        if (isReduced(next)) {
+            // Nothing more may be emitted, including partial windows.
+            result.remaining = size;
+        }
+        return next;
+    }
+}
+
+function getLastFromRing<T>(
+    { buffer, start }: { buffer: T[]; start: number },
+    length: number,
+): T[] {
+    const window: T[] = [];
+    for (let i = buffer.length - length; i < buffer.length; i++) {
+        window.push(buffer[(start + i) % buffer.length]);
+    }
+    return window;
+}
+
+export function partitionSliding<T>(
+    size: number,
+    step: number = 1,
+    options: PartitionSlidingOptions = {},
+): Transducer<T, T[]> {
+    if (size === 0) {
+        throw new Error("Size in partitionSliding() cannot be 0");
+    } else if (size < 0) {
+        throw new Error("Size in partitionSliding() cannot be negative");
+    } else if (step === 0) {
+        throw new Error("Step in partitionSliding() cannot be 0");
+    } else if (step < 0) {
+        throw new Error("Step in partitionSliding() cannot be negative");
+    }
+    const includePartial = !!options.includePartial;
+    return xf => new PartitionSliding(xf, size, step, includePartial);
+}
+
 interface PartitionByState<TResult, TInput> extends ValueWrapper<TResult> {
     buffer: TInput[];
     lastKey: any;
@@ -445,10 +1048,178 @@ export function partitionBy<T>(f: (item: T) => any): Transducer<T, T[]> {
     return xf => new PartitionBy(xf, f);
 }
 
-class Take<TResult, TCompleteResult, TInput>
-    implements CompletingTransformer<TResult, TCompleteResult, TInput> {
-    private i = 0;
+interface ScanState<TResult, TAccumulator> extends ValueWrapper<TResult> {
+    accumulator: TAccumulator;
+}
+
+class Scan<TResult, TCompleteResult, TInput, TAccumulator, TOutput>
+    implements
+        CompletingTransformer<
+            ScanState<TResult, TAccumulator>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TOutput
+        >,
+        private readonly accumulatorXf: CompletingTransformer<
+            TAccumulator,
+            TOutput,
+            TInput
+        >,
+    ) {}
+
+    public [INIT](): ScanState<TResult, TAccumulator> {
+        return {
+            value: this.xf[INIT](),
+            accumulator: this.accumulatorXf[INIT](),
+        };
+    }
+
+    public [RESULT](result: ScanState<TResult, TAccumulator>): TCompleteResult {
+        return this.xf[RESULT](result.value);
+    }
+
+    public [STEP](
+        result: ScanState<TResult, TAccumulator>,
+        input: TInput,
+    ): MaybeReduced<ScanState<TResult, TAccumulator>> {
+        const { accumulatorXf } = this;
+        const accumulator = accumulatorXf[STEP](result.accumulator, input);
+        result.accumulator = unreduced(accumulator);
+        const next = updateValue(
+            result,
+            this.xf[STEP](
+                result.value,
+                accumulatorXf[RESULT](result.accumulator),
+            ),
+        );
+        return isReduced(accumulator) ? ensureReduced(next) : next;
+    }
+}
+
+export function scan<T, U>(
+    reducer: QuittingReducer<U, T>,
+    initialValue: U,
+): Transducer<T, U>;
+export function scan<T, U>(
+    transformer: CompletingTransformer<any, U, T>,
+): Transducer<T, U>;
+export function scan<T, U>(
+    reducer: QuittingReducer<U, T> | CompletingTransformer<any, U, T>,
+    initialValue?: U,
+): Transducer<T, U> {
+    const transformer =
+        typeof reducer === "function"
+            ? new ReducerWrappingTransformer(reducer, initialValue!)
+            : reducer;
+    if (hasOneTimeCompletion(transformer)) {
+        throw new Error(
+            "scan() cannot use a transformer whose completion step emits held back elements or closes an iterator, such as one built with partitionAll()",
+        );
+    }
+    return xf => new Scan(xf, transformer);
+}
+
+/**
+ * Scan completes its transformer after every element, which only works if the
+ * completion step leaves the transformer's state as it was. Transformers built
+ * by transducers keep the next transformer in xf, so the chain is followed to
+ * look for stages whose completion step does not.
+ */
+function hasOneTimeCompletion(transformer: any): boolean {
+    for (let xf = transformer; xf; xf = xf.xf) {
+        if (
+            xf instanceof PairWith ||
+            xf instanceof PartitionAll ||
+            xf instanceof PartitionBy ||
+            (xf instanceof PartitionSliding && (xf as any).includePartial) ||
+            xf instanceof Sort ||
+            (xf instanceof JoinOn && (xf as any).kind === "full")
+        ) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function reductions<T, U>(
+    transformer: CompletingTransformer<any, U, T>,
+): Transducer<T, U> {
+    return scan(transformer);
+}
+
+interface SortState<TResult, TInput> extends ValueWrapper<TResult> {
+    buffer: TInput[];
+}
+
+class Sort<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<
+            SortState<TResult, TInput>,
+            TCompleteResult,
+            TInput
+        > {
+    constructor(
+        private readonly xf: CompletingTransformer<
+            TResult,
+            TCompleteResult,
+            TInput
+        >,
+        private readonly comparator: Comparator<TInput>,
+    ) {}
+
+    public [INIT](): SortState<TResult, TInput> {
+        return { value: this.xf[INIT](), buffer: [] };
+    }
+
+    public [RESULT](result: SortState<TResult, TInput>): TCompleteResult {
+        const { buffer } = result;
+        result.buffer = [];
+        // Array.prototype.sort() is not stable in every environment, so ties
+        // are broken by position.
+        const indices = buffer.map((_, i) => i);
+        indices.sort((i, j) => this.comparator(buffer[i], buffer[j]) || i - j);
+        let value: MaybeReduced<TResult> = result.value;
+        for (let i = 0; i < indices.length && !isReduced(value); i++) {
+            value = this.xf[STEP](value, buffer[indices[i]]);
+        }
+        return this.xf[RESULT](unreduced(value));
+    }
+
+    public [STEP](
+        result: SortState<TResult, TInput>,
+        input: TInput,
+    ): SortState<TResult, TInput> {
+        result.buffer.push(input);
+        return result;
+    }
+}
 
+export function sort<T>(
+    comparator: Comparator<T> = NATURAL_COMPARATOR,
+): Transducer<T, T> {
+    return xf => new Sort(xf, comparator);
+}
+
+export function sortBy<T>(
+    ...getKeys: Array<(item: T) => any>
+): Transducer<T, T> {
+    return sort(
+        thenBy(ascending(getKeys[0]), ...getKeys.slice(1).map(ascending)),
+    );
+}
+
+interface TakeState<T> extends ValueWrapper<T> {
+    i: number;
+}
+
+class Take<TResult, TCompleteResult, TInput>
+    implements
+        CompletingTransformer<TakeState<TResult>, TCompleteResult, TInput> {
     constructor(
         private readonly xf: CompletingTransformer<
             TResult,
@@ -458,21 +1229,24 @@ class Take<TResult, TCompleteResult, TInput>
         private readonly n: number,
     ) {}
 
-    public [INIT](): TResult {
-        return this.xf[INIT]();
+    public [INIT](): TakeState<TResult> {
+        return { value: this.xf[INIT](), i: 0 };
     }
 
-    public [RESULT](result: TResult): TCompleteResult {
-        return this.xf[RESULT](result);
+    public [RESULT](result: TakeState<TResult>): TCompleteResult {
+        return this.xf[RESULT](result.value);
     }
 
-    public [STEP](result: TResult, input: TInput): MaybeReduced<TResult> {
+    public [STEP](
+        result: TakeState<TResult>,
+        input: TInput,
+    ): MaybeReduced<TakeState<TResult>> {
         // Written this way to avoid pulling one more element than necessary.
         if (this.n <= 0) {
             return reduced(result);
         }
-        const next = this.xf[STEP](result, input);
-        return this.i++ < this.n - 1 ? next : ensureReduced(next);
+        const next = updateValue(result, this.xf[STEP](result.value, input));
+        return result.i++ < this.n - 1 ? next : ensureReduced(next);
     }
 }
 
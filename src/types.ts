@@ -34,3 +34,21 @@ export type Transformer<TResult, TInput> = CompletingTransformer<
 >;
 
 export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * The outcome of applying a function which may throw to an input, as produced
+ * by mapTry().
+ */
+export type TryResult<TInput, TOutput> =
+    | { ok: true; value: TOutput }
+    | { ok: false; error: any; input: TInput };
+
+/**
+ * Determines when two values are considered equal, for values such as tuples
+ * or objects which are not equal with ===. Values which are equal must have
+ * hashes which are equal with ===.
+ */
+export interface Equivalence<T> {
+    hash(value: T): any;
+    equals(a: T, b: T): boolean;
+}
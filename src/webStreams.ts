@@ -0,0 +1,142 @@
+// Adapters for WHATWG streams, as found in browsers and in Node.js 18 and
+// later. The stream types here describe only what these functions use, so that
+// this library does not depend on DOM typings.
+
+import { ASYNC_ITERATOR_SYMBOL } from "./asyncIterables";
+import { TransducerStepper } from "./iterables";
+import { Transducer } from "./types";
+
+export interface WebReadableStream<T> {
+    getReader(): WebReadableStreamReader<T>;
+}
+
+export interface WebReadableStreamReader<T> {
+    read(): Promise<{ done: boolean; value?: T }>;
+    cancel(reason?: any): Promise<void>;
+    releaseLock(): void;
+}
+
+export interface WebWritableStream<T> {
+    getWriter(): {
+        write(chunk: T): Promise<void>;
+        close(): Promise<void>;
+        abort(reason?: any): Promise<void>;
+        releaseLock(): void;
+    };
+}
+
+export interface WebTransformStream<TInput, TOutput> {
+    readonly readable: WebReadableStream<TOutput>;
+    readonly writable: WebWritableStream<TInput>;
+}
+
+interface TransformStreamController<T> {
+    enqueue(chunk: T): void;
+    terminate(): void;
+}
+
+declare const TransformStream: new <TInput, TOutput>(transformer: {
+    transform(
+        chunk: TInput,
+        controller: TransformStreamController<TOutput>,
+    ): void;
+    flush(controller: TransformStreamController<TOutput>): void;
+}) => WebTransformStream<TInput, TOutput>;
+
+/**
+ * Returns a TransformStream which applies the transducer to the chunks written
+ * to it. If the transducer finishes early, the readable side is closed and the
+ * writable side errors, which cancels a source piped into it. Requires
+ * TransformStream to be present in the environment.
+ */
+export function toTransformStream<TInput, TOutput>(
+    transform: Transducer<TInput, TOutput>,
+): WebTransformStream<TInput, TOutput> {
+    const stepper = new TransducerStepper(transform);
+
+    function complete(controller: TransformStreamController<TOutput>): void {
+        stepper.complete();
+        stepper.flush(output => controller.enqueue(output));
+    }
+
+    return new TransformStream<TInput, TOutput>({
+        transform(chunk, controller) {
+            if (stepper.isDone) {
+                return;
+            }
+            if (stepper.step(chunk)) {
+                complete(controller);
+                controller.terminate();
+            } else {
+                stepper.flush(output => controller.enqueue(output));
+            }
+        },
+        flush(controller) {
+            complete(controller);
+        },
+    });
+}
+
+/**
+ * Reads the stream through its reader. Closing the iterator early cancels the
+ * stream.
+ */
+class ReadableStreamIterator<T> implements AsyncIterator<T> {
+    private isDone = false;
+
+    constructor(private readonly reader: WebReadableStreamReader<T>) {}
+
+    public [ASYNC_ITERATOR_SYMBOL]() {
+        return this;
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        if (this.isDone) {
+            return Promise.resolve({ done: true } as any);
+        }
+        return this.reader.read().then(
+            ({ done, value }) => {
+                if (done) {
+                    this.release();
+                    return { done: true } as any;
+                }
+                return { done: false, value: value as T };
+            },
+            error => {
+                this.release();
+                throw error;
+            },
+        );
+    }
+
+    public return(value?: any): Promise<IteratorResult<T>> {
+        if (this.isDone) {
+            return Promise.resolve({ done: true, value });
+        }
+        const { reader } = this;
+        this.isDone = true;
+        return reader.cancel().then(() => {
+            reader.releaseLock();
+            return { done: true, value };
+        });
+    }
+
+    private release(): void {
+        this.isDone = true;
+        this.reader.releaseLock();
+    }
+}
+
+/**
+ * Returns an async iterable of the chunks of a ReadableStream, which may be
+ * used to start an async chain or transduction. The stream is locked while it
+ * is being read, and cancelled if the reduction stops early.
+ */
+export function fromReadableStream<T>(
+    readable: WebReadableStream<T>,
+): AsyncIterable<T> {
+    return {
+        [ASYNC_ITERATOR_SYMBOL]: () =>
+            new ReadableStreamIterator(readable.getReader()),
+    } as any;
+}